@@ -31,8 +31,8 @@ import { createPreflightResponse, withCorsHeaders } from "../lib/cors";
 /** Maximum payload size in bytes (5 MB) */
 const MAX_PAYLOAD_SIZE = 5 * 1024 * 1024;
 
-/** Supported schema versions */
-const SUPPORTED_SCHEMA_VERSIONS = [1];
+/** Supported schema versions (v2 adds optional tab state fields, v3 session tags) */
+const SUPPORTED_SCHEMA_VERSIONS = [1, 2, 3];
 
 /** Dev mode flag - ONLY for local testing, blocked in Azure Production */
 const IS_LOCAL = process.env.AZURE_FUNCTIONS_ENVIRONMENT !== "Production";
@@ -22,5 +22,5 @@ export const MIN_SESSION_NAME_LENGTH = 1;
 /** Maximum sync payload size in bytes (5 MB) */
 export const MAX_PAYLOAD_SIZE = 5 * 1024 * 1024;
 
-/** Supported schema versions */
-export const SUPPORTED_SCHEMA_VERSIONS = [1];
+/** Supported schema versions (v2 adds optional tab state fields, v3 session tags) */
+export const SUPPORTED_SCHEMA_VERSIONS = [1, 2, 3];
@@ -0,0 +1,65 @@
+/**
+ * TabFlow – Add to Session
+ *
+ * Appends open tabs to a session that already exists, instead of saving
+ * a new one. Shared by the popup's "Add to…" flow and the context menus.
+ */
+
+import type { Session, TabSnapshot } from "@shared/types";
+import { getSession, addGroupToSession, addTabsToGroup } from "@storage/sessions";
+import { pushAddToSessionUndo } from "./undo";
+
+/**
+ * Where added tabs go. Without a groupId they form a new group.
+ */
+export interface AddToSessionTarget {
+  sessionId: string;
+  groupId?: string;
+}
+
+/**
+ * Append tabs to a saved session, as an undoable action.
+ *
+ * @param target - Session, and optionally the group, receiving the tabs
+ * @param tabs - Tabs to add
+ * @param newGroupName - Name of the new group when no groupId is given
+ * @returns Promise resolving to the updated session
+ * @throws Error if there are no tabs or the session does not exist
+ */
+export async function addTabsToSession(
+  target: AddToSessionTarget,
+  tabs: TabSnapshot[],
+  newGroupName: string
+): Promise<Session> {
+  if (tabs.length === 0) {
+    throw new Error("No tabs to add");
+  }
+
+  // Keep the session as it was for undo
+  const previousSession = await getSession(target.sessionId);
+  if (!previousSession) {
+    throw new Error("Session not found");
+  }
+
+  const session = target.groupId
+    ? await addTabsToGroup(target.sessionId, target.groupId, tabs)
+    : await addGroupToSession(target.sessionId, { name: newGroupName, tabs });
+
+  await pushAddToSessionUndo(previousSession);
+
+  console.log("[TabFlow] Added to session:", target.sessionId, tabs.length);
+  return session;
+}
+
+/**
+ * Default name for a group of tabs added from a whole window.
+ */
+export function getAddedGroupName(): string {
+  const dateStr = new Date().toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `Added ${dateStr}`;
+}
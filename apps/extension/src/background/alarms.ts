@@ -2,7 +2,8 @@
  * TabFlow – Chrome Alarms Module
  *
  * Handles scheduled tasks using chrome.alarms API.
- * Currently used for automatic hourly backups.
+ * Used for automatic hourly backups, periodic auto-save of open windows and
+ * emptying old sessions from the Trash.
  *
  * Design:
  * - Alarms persist across service worker restarts
@@ -10,8 +11,25 @@
  * - All scheduled work goes through this module
  */
 
-import { ALARM_HOURLY_BACKUP, BACKUP_INTERVAL_MINUTES } from "@shared/constants";
+import type { Group } from "@shared/types";
+import {
+  ALARM_HOURLY_BACKUP,
+  ALARM_AUTO_SAVE,
+  ALARM_TRASH_PURGE,
+  AUTO_SAVE_SESSION_NAME,
+  BACKUP_INTERVAL_MINUTES,
+  TRASH_PURGE_INTERVAL_MINUTES,
+} from "@shared/constants";
 import { createBackup } from "@storage/backups";
+import { purgeTrash } from "@storage/archive";
+import {
+  createSession,
+  dedupeGroups,
+  getAutoSavedSessions,
+  pruneAutoSavedSessions,
+} from "@storage/sessions";
+import { getAllWindowGroups, type CapturedGroup } from "./tabCapture";
+import { getSettings, getCaptureOptions, getDedupeKey } from "./settings";
 
 // =============================================================================
 // Alarm Setup
@@ -47,6 +65,52 @@ export async function clearBackupAlarm(): Promise<void> {
   console.log("[TabFlow] Backup alarm cleared");
 }
 
+/**
+ * Create, update or clear the auto-save alarm to match settings.
+ * Called on install/update and whenever settings change.
+ */
+export async function setupAutoSaveAlarm(): Promise<void> {
+  const { autoSave, autoSaveIntervalMinutes } = await getSettings();
+  const existingAlarm = await chrome.alarms.get(ALARM_AUTO_SAVE);
+
+  if (!autoSave) {
+    if (existingAlarm) {
+      await chrome.alarms.clear(ALARM_AUTO_SAVE);
+      console.log("[TabFlow] Auto-save alarm cleared");
+    }
+    return;
+  }
+
+  if (existingAlarm?.periodInMinutes === autoSaveIntervalMinutes) {
+    return;
+  }
+
+  // Creating an alarm with the same name replaces the existing one
+  await chrome.alarms.create(ALARM_AUTO_SAVE, {
+    delayInMinutes: autoSaveIntervalMinutes,
+    periodInMinutes: autoSaveIntervalMinutes,
+  });
+
+  console.log("[TabFlow] Auto-save alarm set, interval:", autoSaveIntervalMinutes, "minutes");
+}
+
+/**
+ * Set up the daily Trash purge alarm.
+ * Called on extension install and update.
+ */
+export async function setupTrashPurgeAlarm(): Promise<void> {
+  if (await chrome.alarms.get(ALARM_TRASH_PURGE)) {
+    return;
+  }
+
+  await chrome.alarms.create(ALARM_TRASH_PURGE, {
+    delayInMinutes: 1,
+    periodInMinutes: TRASH_PURGE_INTERVAL_MINUTES,
+  });
+
+  console.log("[TabFlow] Trash purge alarm created");
+}
+
 // =============================================================================
 // Alarm Handler
 // =============================================================================
@@ -65,6 +129,14 @@ export async function handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
       await handleBackupAlarm();
       break;
 
+    case ALARM_AUTO_SAVE:
+      await handleAutoSaveAlarm();
+      break;
+
+    case ALARM_TRASH_PURGE:
+      await handleTrashPurgeAlarm();
+      break;
+
     default:
       console.warn("[TabFlow] Unknown alarm:", alarm.name);
   }
@@ -82,6 +154,68 @@ async function handleBackupAlarm(): Promise<void> {
   }
 }
 
+/**
+ * Check whether captured groups hold the same tabs as a saved session.
+ */
+function hasSameTabs(saved: Group[], captured: CapturedGroup[]): boolean {
+  const urls = (groups: CapturedGroup[]) =>
+    groups.flatMap((group) => group.tabs.map((tab) => tab.url)).join("\n");
+  return urls(saved) === urls(captured);
+}
+
+/**
+ * Handle the auto-save alarm.
+ * Captures every open window into an autosave session, skipping the
+ * save if nothing changed since the last one, then prunes old autosaves.
+ */
+async function handleAutoSaveAlarm(): Promise<void> {
+  try {
+    const settings = await getSettings();
+    if (!settings.autoSave) return;
+
+    const captured = await getAllWindowGroups(getCaptureOptions(settings));
+    // Dedupe before comparing, so the capture matches what the last autosave stored
+    const groups = settings.dedupeOnSave
+      ? dedupeGroups(captured, getDedupeKey(settings)).groups
+      : captured;
+    if (groups.length === 0) {
+      console.log("[TabFlow] Auto-save skipped: no tabs open");
+      return;
+    }
+
+    const [latest] = await getAutoSavedSessions();
+    if (latest && hasSameTabs(latest.groups, groups)) {
+      console.log("[TabFlow] Auto-save skipped: tabs unchanged");
+      return;
+    }
+
+    const session = await createSession(AUTO_SAVE_SESSION_NAME, groups, { autoSaved: true });
+    const pruned = await pruneAutoSavedSessions(settings.autoSaveKeepCount);
+
+    console.log("[TabFlow] Auto-save created:", session.id, "pruned:", pruned);
+  } catch (error) {
+    console.error("[TabFlow] Auto-save failed:", error);
+  }
+}
+
+/**
+ * Handle the Trash purge alarm.
+ * Deletes sessions trashed longer ago than the retention period.
+ */
+async function handleTrashPurgeAlarm(): Promise<void> {
+  try {
+    const { trashRetentionDays } = await getSettings();
+    if (trashRetentionDays <= 0) return;
+
+    const purged = await purgeTrash(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000);
+    if (purged > 0) {
+      console.log("[TabFlow] Purged", purged, "sessions from the Trash");
+    }
+  } catch (error) {
+    console.error("[TabFlow] Trash purge failed:", error);
+  }
+}
+
 // =============================================================================
 // Manual Backup Trigger
 // =============================================================================
@@ -11,10 +11,11 @@
  * - No merging or conflict resolution
  */
 
-import type { Session, BackupBlob } from "@shared/types";
+import type { Session, BackupBlob, Tag } from "@shared/types";
 import { CLOUD_SYNC_SCHEMA_VERSION } from "@shared/constants";
 import { getAllSessions } from "@storage/sessions";
 import { restoreFromBackup, parseImportData } from "@storage/backups";
+import { getAllTags } from "@storage/tags";
 import { uploadToCloud, downloadFromCloud, AuthenticationError } from "./cloudApi";
 import { encryptData, decryptData } from "./encryption";
 
@@ -87,7 +88,7 @@ export async function handleCloudUpload(): Promise<UploadResult> {
     console.log("[CloudSync] Starting upload...");
 
     // 1. Get all sessions
-    const sessions = await getAllSessions();
+    const sessions = await getAllSessions({ includeHidden: true });
     console.log(`[CloudSync] Found ${sessions.length} sessions to upload`);
 
     // 2. Create backup blob
@@ -95,6 +96,7 @@ export async function handleCloudUpload(): Promise<UploadResult> {
       version: CLOUD_SYNC_SCHEMA_VERSION,
       timestamp: new Date().toISOString(),
       sessions,
+      tags: await getAllTags(),
     };
 
     // 3. Serialize to JSON
@@ -223,7 +225,7 @@ export async function handleCloudApplyRestore(
     const backupBlob = parseImportData(sessionsJson);
 
     // Apply to local storage
-    await applyCloudDownload(backupBlob.sessions);
+    await applyCloudDownload(backupBlob.sessions, backupBlob.tags);
 
     console.log(`[CloudSync] Restore applied: ${backupBlob.sessions.length} sessions`);
 
@@ -314,15 +316,17 @@ export async function handleCloudDownload(): Promise<DownloadResult> {
  * WARNING: This is destructive. Caller should confirm with user first.
  *
  * @param sessions - Sessions to apply
+ * @param tags - Tag definitions to apply (absent before schema v3)
  * @returns Promise resolving to previous sessions (for undo)
  */
-export async function applyCloudDownload(sessions: Session[]): Promise<Session[]> {
+export async function applyCloudDownload(sessions: Session[], tags?: Tag[]): Promise<Session[]> {
   console.log(`[CloudSync] Applying ${sessions.length} sessions from cloud`);
 
   const backupBlob: BackupBlob = {
     version: CLOUD_SYNC_SCHEMA_VERSION,
     timestamp: new Date().toISOString(),
     sessions,
+    tags,
   };
 
   const previousSessions = await restoreFromBackup(backupBlob);
@@ -0,0 +1,180 @@
+/**
+ * TabFlow – Keyboard Shortcuts
+ *
+ * chrome.commands bindings, declared in the manifest:
+ * - save-window: save the current window as a session
+ * - stash-window: save the current window and close its tabs
+ * - undo: undo the last action
+ * - open-search: open the popup with the search box focused
+ * - restore-recent: restore the most recently saved session
+ *
+ * Chrome allows at most four suggested keys, so stash-window starts unbound;
+ * users assign it at chrome://extensions/shortcuts.
+ *
+ * Design:
+ * - Each command goes through handleMessage(), exactly like the popup
+ * - No popup is open, so the outcome is shown on the toolbar badge
+ *   (green on success, red "!" with the error in the tooltip)
+ */
+
+import { MessageAction } from "@shared/messages";
+import type { Session } from "@shared/types";
+import { BADGE_FEEDBACK_DURATION_MS, SEARCH_FOCUS_WINDOW_MS } from "@shared/constants";
+import { dispatchMessage } from "./messaging";
+import { openExtensionPage } from "./tabCapture";
+
+const COMMAND_SAVE_WINDOW = "save-window";
+const COMMAND_STASH_WINDOW = "stash-window";
+const COMMAND_UNDO = "undo";
+const COMMAND_OPEN_SEARCH = "open-search";
+const COMMAND_RESTORE_RECENT = "restore-recent";
+
+const BADGE_SUCCESS_COLOR = "#16a34a";
+const BADGE_ERROR_COLOR = "#dc2626";
+const DEFAULT_TITLE = "TabFlow";
+
+/** chrome.storage.session key for a pending search focus request */
+const SEARCH_FOCUS_KEY = "searchFocusRequestedAt";
+
+// =============================================================================
+// Badge Feedback
+// =============================================================================
+
+/**
+ * Timer that clears the badge.
+ */
+let badgeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Show a short result on the toolbar badge, with details in its tooltip.
+ */
+async function showBadge(success: boolean, text: string, title: string): Promise<void> {
+  if (badgeTimeout) {
+    clearTimeout(badgeTimeout);
+  }
+
+  await chrome.action.setBadgeBackgroundColor({
+    color: success ? BADGE_SUCCESS_COLOR : BADGE_ERROR_COLOR,
+  });
+  await chrome.action.setBadgeText({ text });
+  await chrome.action.setTitle({ title: `${DEFAULT_TITLE} – ${title}` });
+
+  badgeTimeout = setTimeout(() => {
+    badgeTimeout = null;
+    chrome.action.setBadgeText({ text: "" });
+    chrome.action.setTitle({ title: DEFAULT_TITLE });
+  }, BADGE_FEEDBACK_DURATION_MS);
+}
+
+function formatTabCount(count: number): string {
+  return `${count} tab${count !== 1 ? "s" : ""}`;
+}
+
+function countTabs(session: Session): number {
+  return session.groups.reduce((sum, group) => sum + group.tabs.length, 0);
+}
+
+// =============================================================================
+// Command Handling
+// =============================================================================
+
+/**
+ * Open the popup, or the popup page in a tab where Chrome can't open it.
+ */
+async function openPopup(): Promise<void> {
+  try {
+    await chrome.action.openPopup();
+  } catch {
+    await openExtensionPage("popup.html");
+  }
+}
+
+/**
+ * Whether the popup was just opened by the open-search command.
+ * Only answers yes once per command.
+ */
+export async function consumeSearchFocus(): Promise<boolean> {
+  const result = await chrome.storage.session.get(SEARCH_FOCUS_KEY);
+  await chrome.storage.session.remove(SEARCH_FOCUS_KEY);
+
+  const requestedAt = (result[SEARCH_FOCUS_KEY] as number | undefined) ?? 0;
+  return Date.now() - requestedAt < SEARCH_FOCUS_WINDOW_MS;
+}
+
+/**
+ * Run one command and show its outcome on the badge.
+ *
+ * @returns Promise resolving to whether the command may have changed sessions
+ */
+async function runCommand(command: string): Promise<boolean> {
+  switch (command) {
+    case COMMAND_SAVE_WINDOW: {
+      const session = await dispatchMessage(MessageAction.SAVE_SESSION, { scope: "currentWindow" });
+      const tabCount = countTabs(session);
+      await showBadge(true, String(tabCount), `Saved ${formatTabCount(tabCount)}`);
+      return true;
+    }
+
+    case COMMAND_STASH_WINDOW: {
+      const session = await dispatchMessage(MessageAction.SAVE_SESSION, {
+        scope: "currentWindow",
+        closeTabs: true,
+      });
+      const tabCount = countTabs(session);
+      await showBadge(true, String(tabCount), `Stashed ${formatTabCount(tabCount)}`);
+      return true;
+    }
+
+    case COMMAND_UNDO: {
+      const { undone } = await dispatchMessage(MessageAction.UNDO);
+      if (!undone) {
+        await showBadge(false, "!", "Nothing to undo");
+        return false;
+      }
+      await showBadge(true, "✓", "Undone");
+      return true;
+    }
+
+    case COMMAND_OPEN_SEARCH:
+      await chrome.storage.session.set({ [SEARCH_FOCUS_KEY]: Date.now() });
+      await openPopup();
+      return false;
+
+    case COMMAND_RESTORE_RECENT: {
+      const sessions = await dispatchMessage(MessageAction.GET_SESSIONS);
+      const recent = sessions.reduce<Session | null>(
+        (latest, session) => (!latest || session.createdAt > latest.createdAt ? session : latest),
+        null
+      );
+      if (!recent) {
+        await showBadge(false, "!", "No sessions to restore");
+        return false;
+      }
+      const { tabsOpened } = await dispatchMessage(MessageAction.RESTORE_SESSION, {
+        sessionId: recent.id,
+      });
+      await showBadge(true, String(tabsOpened), `Restored ${formatTabCount(tabsOpened)}`);
+      return false;
+    }
+
+    default:
+      console.warn("[TabFlow] Unknown command:", command);
+      return false;
+  }
+}
+
+/**
+ * Handle a keyboard shortcut.
+ *
+ * @returns Promise resolving to whether the command may have changed sessions
+ */
+export async function handleCommand(command: string): Promise<boolean> {
+  try {
+    return await runCommand(command);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[TabFlow] Command failed:", command, message);
+    await showBadge(false, "!", message);
+    return false;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * TabFlow – Context Menus
+ *
+ * Right-click menus on pages, links and the toolbar icon:
+ * - Save tab to TabFlow session… (a new session, or the end of an existing one)
+ * - Save link to session… (same targets, without opening the link)
+ * - Save all tabs in window (a new session)
+ * - Add this window to… (a new group in an existing session)
+ * - Open TabFlow
+ *
+ * Design:
+ * - Chrome keeps menu items across service worker restarts, so menus are
+ *   built on install/startup and rebuilt (debounced) when sessions change
+ * - Rebuilds are serialized; each one removes everything and starts over
+ * - Item IDs carry the target ("save-tab:<sessionId>", "save-tab:new")
+ * - Saves go through the same storage functions and undo entries as the popup
+ */
+
+import type { Group, Session, TabSnapshot } from "@shared/types";
+import {
+  MAX_CONTEXT_MENU_SESSIONS,
+  CONTEXT_MENU_REFRESH_DEBOUNCE_MS,
+  UNGROUPED_GROUP_NAME,
+} from "@shared/constants";
+import { getAllSessions, getSession, createSession } from "@storage/sessions";
+import {
+  captureTab,
+  createLinkSnapshot,
+  getWindowTabs,
+  getWindowGroups,
+  openExtensionPage,
+} from "./tabCapture";
+import { getSettings, getCaptureOptions, getDedupeKey } from "./settings";
+import { addTabsToSession, getAddedGroupName } from "./addToSession";
+import { pushSaveSessionUndo } from "./undo";
+
+const MENU_SAVE_TAB = "save-tab";
+const MENU_SAVE_LINK = "save-link";
+const MENU_SAVE_WINDOW = "save-window";
+const MENU_ADD_WINDOW = "add-window";
+const MENU_OPEN_POPUP = "open-popup";
+
+/** Child item ID suffix for saving into a new session */
+const NEW_SESSION = "new";
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Pending rebuild, so rebuilds never interleave.
+ */
+let rebuild: Promise<void> = Promise.resolve();
+
+/**
+ * Debounce timer for rebuilds.
+ */
+let refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Escape a session name for use as a menu title; Chrome replaces "%s" in
+ * titles with the selected text, so literal "%" must be doubled.
+ */
+function toMenuTitle(name: string): string {
+  return name.replace(/%/g, "%%");
+}
+
+/**
+ * Create a parent item with one child per session, optionally preceded by
+ * a "New session" child.
+ */
+function createSessionMenu(
+  parentId: string,
+  title: string,
+  contexts: chrome.contextMenus.ContextType[],
+  sessions: Session[],
+  withNewSession: boolean
+): void {
+  chrome.contextMenus.create({ id: parentId, title, contexts });
+
+  if (withNewSession) {
+    chrome.contextMenus.create({
+      id: `${parentId}:${NEW_SESSION}`,
+      parentId,
+      title: "New session",
+      contexts,
+    });
+    if (sessions.length > 0) {
+      chrome.contextMenus.create({
+        id: `${parentId}:separator`,
+        parentId,
+        type: "separator",
+        contexts,
+      });
+    }
+  }
+
+  for (const session of sessions) {
+    chrome.contextMenus.create({
+      id: `${parentId}:${session.id}`,
+      parentId,
+      title: toMenuTitle(session.name),
+      contexts,
+    });
+  }
+}
+
+async function buildContextMenus(): Promise<void> {
+  await chrome.contextMenus.removeAll();
+
+  // Auto-saves are rewritten on a timer; only the user's own sessions are offered
+  const sessions = (await getAllSessions())
+    .filter((session) => !session.autoSaved)
+    .slice(0, MAX_CONTEXT_MENU_SESSIONS);
+
+  createSessionMenu(
+    MENU_SAVE_TAB,
+    "Save tab to TabFlow session…",
+    ["page", "action"],
+    sessions,
+    true
+  );
+  createSessionMenu(MENU_SAVE_LINK, "Save link to session…", ["link"], sessions, true);
+  chrome.contextMenus.create({
+    id: MENU_SAVE_WINDOW,
+    title: "Save all tabs in window",
+    contexts: ["page", "action"],
+  });
+  if (sessions.length > 0) {
+    createSessionMenu(MENU_ADD_WINDOW, "Add this window to…", ["page"], sessions, false);
+  }
+  chrome.contextMenus.create({
+    id: MENU_OPEN_POPUP,
+    title: "Open TabFlow",
+    contexts: ["page", "action"],
+  });
+}
+
+/**
+ * Rebuild the context menus from the current sessions.
+ */
+export function refreshContextMenus(): Promise<void> {
+  rebuild = rebuild.then(buildContextMenus).catch((error) => {
+    console.error("[TabFlow] Failed to build context menus:", error);
+  });
+  return rebuild;
+}
+
+/**
+ * Schedule a rebuild of the context menus (debounced).
+ * Called after messages that may have changed sessions.
+ */
+export function scheduleContextMenuRefresh(): void {
+  if (refreshTimeout) {
+    clearTimeout(refreshTimeout);
+  }
+
+  refreshTimeout = setTimeout(() => {
+    refreshTimeout = null;
+    refreshContextMenus();
+  }, CONTEXT_MENU_REFRESH_DEBOUNCE_MS);
+}
+
+// =============================================================================
+// Click Handling
+// =============================================================================
+
+/**
+ * Save groups as a new session, honoring the dedupe-on-save setting.
+ */
+async function saveNewSession(groups: Omit<Group, "id">[]): Promise<void> {
+  const settings = await getSettings();
+  const session = await createSession(`Session ${new Date().toLocaleString()}`, groups, {
+    dedupe: settings.dedupeOnSave,
+    getDedupeKey: getDedupeKey(settings),
+  });
+  await pushSaveSessionUndo(session.id);
+
+  console.log("[TabFlow] Session saved from context menu:", session.id);
+}
+
+/**
+ * Save one tab (or link) into a new session, or to the end of the last
+ * group of an existing one.
+ */
+async function saveSnapshot(target: string, snapshot: TabSnapshot): Promise<void> {
+  if (target === NEW_SESSION) {
+    await saveNewSession([{ name: UNGROUPED_GROUP_NAME, tabs: [snapshot] }]);
+    return;
+  }
+
+  const session = await getSession(target);
+  const lastGroup = session?.groups[session.groups.length - 1];
+  await addTabsToSession(
+    { sessionId: target, groupId: lastGroup?.id },
+    [snapshot],
+    getAddedGroupName()
+  );
+}
+
+/**
+ * Open the popup, or the popup page in a tab where Chrome can't open it
+ * from a context menu.
+ */
+async function openPopup(): Promise<void> {
+  try {
+    await chrome.action.openPopup();
+  } catch {
+    await openExtensionPage("popup.html");
+  }
+}
+
+/**
+ * Handle a click on one of TabFlow's context menu items.
+ */
+export async function handleContextMenuClick(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<void> {
+  const [menu, target] = String(info.menuItemId).split(":");
+  const options = getCaptureOptions(await getSettings());
+
+  switch (menu) {
+    case MENU_SAVE_TAB: {
+      const snapshot = tab && captureTab(tab, options);
+      if (!target || !snapshot) return;
+      await saveSnapshot(target, snapshot);
+      break;
+    }
+
+    case MENU_SAVE_LINK: {
+      const snapshot =
+        info.linkUrl && createLinkSnapshot(info.linkUrl, info.selectionText, options);
+      if (!target || !snapshot) return;
+      await saveSnapshot(target, snapshot);
+      break;
+    }
+
+    case MENU_SAVE_WINDOW: {
+      if (!tab) return;
+      const groups = await getWindowGroups(tab.windowId, options);
+      if (groups.length === 0) return;
+      await saveNewSession(groups);
+      break;
+    }
+
+    case MENU_ADD_WINDOW: {
+      if (!tab || !target) return;
+      const tabs = await getWindowTabs(tab.windowId, options);
+      await addTabsToSession({ sessionId: target }, tabs, getAddedGroupName());
+      break;
+    }
+
+    case MENU_OPEN_POPUP:
+      await openPopup();
+      break;
+  }
+}
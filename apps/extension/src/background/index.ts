@@ -12,15 +12,37 @@
  * Responsibilities:
  * - Register chrome.runtime.onInstalled → run setup
  * - Register chrome.runtime.onMessage → route to messaging handler
- * - Register chrome.alarms.onAlarm → trigger backup
+ * - Register chrome.alarms.onAlarm → trigger backup / auto-save / Trash purge
+ * - Register chrome.runtime.onStartup → set aside the last browsing state
+ * - Register chrome.tabs events → snapshot open windows for crash recovery,
+ *   sync workspace windows into their sessions
+ * - Register chrome.contextMenus.onClicked → save tabs, links and windows,
+ *   and keep the menus' session lists current
+ * - Register chrome.commands.onCommand → run keyboard shortcuts
+ * - Register chrome.omnibox events → search sessions from the address bar
  * - Rehydrate undo stack from IndexedDB on wake-up
  * - Initialize DB connection
  */
 
 import { handleMessage } from "./messaging";
 import { initUndoStack, flushUndoStack } from "./undo";
-import { setupBackupAlarm, handleAlarm } from "./alarms";
+import { setupBackupAlarm, setupAutoSaveAlarm, setupTrashPurgeAlarm, handleAlarm } from "./alarms";
+import { scheduleBrowsingSnapshot, handleBrowserStartup, handleWindowClosed } from "./recovery";
+import { scheduleWorkspaceSync, unbindWindow } from "./workspaces";
+import {
+  refreshContextMenus,
+  scheduleContextMenuRefresh,
+  handleContextMenuClick,
+} from "./contextMenus";
+import { handleCommand } from "./commands";
+import {
+  handleOmniboxInputStarted,
+  handleOmniboxInputChanged,
+  handleOmniboxInputEntered,
+  resetOmnibox,
+} from "./omnibox";
 import { getDB } from "@storage/db";
+import { DEFAULT_SETTINGS } from "@shared/types";
 
 // =============================================================================
 // Initialization
@@ -63,19 +85,14 @@ chrome.runtime.onInstalled.addListener(async (details) => {
     // Initialize database schema
     await getDB();
 
-    // Set up backup alarm
+    // Set up backup and Trash purge alarms
     await setupBackupAlarm();
+    await setupTrashPurgeAlarm();
 
     // Set default settings
     const result = await chrome.storage.local.get("settings");
     if (!result.settings) {
-      await chrome.storage.local.set({
-        settings: {
-          autoBackup: true,
-          backupFrequencyHours: 1,
-          aiOptIn: false,
-        },
-      });
+      await chrome.storage.local.set({ settings: DEFAULT_SETTINGS });
     }
 
     // Set default tier
@@ -84,14 +101,32 @@ chrome.runtime.onInstalled.addListener(async (details) => {
       await chrome.storage.local.set({ tier: "free" });
     }
 
+    // Set up auto-save alarm (if enabled in settings)
+    await setupAutoSaveAlarm();
+
     console.log("[TabFlow] First-time setup complete");
   } else if (details.reason === "update") {
     // Extension updated
     console.log("[TabFlow] Updated to version:", chrome.runtime.getManifest().version);
 
-    // Ensure backup alarm exists after update
+    // Ensure alarms exist after update
     await setupBackupAlarm();
+    await setupAutoSaveAlarm();
+    await setupTrashPurgeAlarm();
   }
+
+  await refreshContextMenus();
+});
+
+// =============================================================================
+// Startup Handler
+// =============================================================================
+
+chrome.runtime.onStartup.addListener(() => {
+  handleBrowserStartup().catch((error) => {
+    console.error("[TabFlow] Startup handler error:", error);
+  });
+  refreshContextMenus();
 });
 
 // =============================================================================
@@ -101,7 +136,13 @@ chrome.runtime.onInstalled.addListener(async (details) => {
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Handle message asynchronously
   handleMessage(message, sender)
-    .then((response) => sendResponse(response))
+    .then((response) => {
+      sendResponse(response);
+      // Anything but a read may have changed the sessions the menus list
+      if (response.success && !String(message?.action).startsWith("GET_")) {
+        scheduleContextMenuRefresh();
+      }
+    })
     .catch((error) => {
       console.error("[TabFlow] Message handler error:", error);
       sendResponse({
@@ -124,6 +165,108 @@ chrome.alarms.onAlarm.addListener((alarm) => {
   });
 });
 
+// =============================================================================
+// Context Menu Handler
+// =============================================================================
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  handleContextMenuClick(info, tab)
+    .then(() => scheduleContextMenuRefresh())
+    .catch((error) => {
+      console.error("[TabFlow] Context menu handler error:", error);
+    });
+});
+
+// =============================================================================
+// Keyboard Shortcut Handler
+// =============================================================================
+
+chrome.commands.onCommand.addListener((command) => {
+  handleCommand(command)
+    .then((changed) => {
+      if (changed) {
+        scheduleContextMenuRefresh();
+      }
+    })
+    .catch((error) => {
+      console.error("[TabFlow] Command handler error:", error);
+    });
+});
+
+// =============================================================================
+// Omnibox Handlers
+// =============================================================================
+
+chrome.omnibox.onInputStarted.addListener(handleOmniboxInputStarted);
+
+chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+  handleOmniboxInputChanged(text, suggest).catch((error) => {
+    console.error("[TabFlow] Omnibox search error:", error);
+  });
+});
+
+chrome.omnibox.onInputEntered.addListener((text) => {
+  handleOmniboxInputEntered(text).catch((error) => {
+    console.error("[TabFlow] Omnibox handler error:", error);
+  });
+});
+
+chrome.omnibox.onInputCancelled.addListener(resetOmnibox);
+
+// =============================================================================
+// Tab Event Handlers (Crash Recovery, Workspaces)
+// =============================================================================
+
+/**
+ * A window's tabs changed: refresh the browsing snapshot and, if the window
+ * is a workspace, its session.
+ */
+function handleTabsChanged(windowId: number): void {
+  scheduleBrowsingSnapshot();
+  scheduleWorkspaceSync(windowId);
+}
+
+chrome.tabs.onCreated.addListener((tab) => handleTabsChanged(tab.windowId));
+
+chrome.tabs.onRemoved.addListener((_tabId, removeInfo) => {
+  // Windows closing (e.g. at shutdown) would otherwise empty the snapshot
+  if (removeInfo.isWindowClosing) return;
+  handleTabsChanged(removeInfo.windowId);
+});
+
+chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  // Ignore loading churn; sync on navigation, load completion (for the
+  // final title), pinning and grouping
+  if (
+    changeInfo.url !== undefined ||
+    changeInfo.status === "complete" ||
+    changeInfo.pinned !== undefined ||
+    changeInfo.groupId !== undefined
+  ) {
+    handleTabsChanged(tab.windowId);
+  }
+});
+
+chrome.tabs.onMoved.addListener((_tabId, moveInfo) => handleTabsChanged(moveInfo.windowId));
+
+chrome.tabs.onAttached.addListener((_tabId, attachInfo) =>
+  handleTabsChanged(attachInfo.newWindowId)
+);
+
+chrome.tabs.onDetached.addListener((_tabId, detachInfo) =>
+  handleTabsChanged(detachInfo.oldWindowId)
+);
+
+// A closed window's workspace keeps its last synced state
+chrome.windows.onRemoved.addListener((windowId) => {
+  unbindWindow(windowId).catch((error) => {
+    console.error("[TabFlow] Failed to unbind closed window:", error);
+  });
+  handleWindowClosed().catch((error) => {
+    console.error("[TabFlow] Failed to update browsing snapshot:", error);
+  });
+});
+
 // =============================================================================
 // Service Worker Lifecycle Events
 // =============================================================================
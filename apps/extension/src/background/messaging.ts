@@ -13,16 +13,42 @@
 import {
   MessageAction,
   type Message,
+  type MessageActionType,
   type MessageResponse,
+  type MessageResponseMap,
   type SaveSessionPayload,
   type RestoreSessionPayload,
   type DeleteSessionPayload,
   type RenameSessionPayload,
+  type DedupeSessionPayload,
+  type MergeSessionsPayload,
+  type SplitSessionPayload,
+  type AddToSessionPayload,
+  type SetSessionTagsPayload,
+  type SetSessionNotesPayload,
+  type PinSessionPayload,
+  type ArchiveSessionPayload,
+  type UnarchiveSessionPayload,
+  type RestoreFromTrashPayload,
+  type PurgeSessionPayload,
+  type ReorderSessionsPayload,
+  type ReorderGroupsPayload,
+  type OpenTabPayload,
+  type UpdateTabPayload,
+  type DeleteTabPayload,
+  type MoveTabPayload,
+  type SwitchWorkspacePayload,
+  type UnbindWorkspacePayload,
   type ImportDataPayload,
 } from "@shared/messages";
-import type { Settings } from "@shared/types";
-import { DEFAULT_SETTINGS } from "@shared/types";
-import { MAX_SESSION_NAME_LENGTH } from "@shared/constants";
+import type { CaptureScope, Settings, Tag, TabLocation, TabSnapshot } from "@shared/types";
+import {
+  MAX_SESSION_NAME_LENGTH,
+  MAX_TAG_NAME_LENGTH,
+  MAX_SESSION_NOTES_LENGTH,
+  MAX_TAB_NOTE_LENGTH,
+  GROUP_COLORS,
+} from "@shared/constants";
 
 // Storage imports
 import {
@@ -31,12 +57,49 @@ import {
   createSession,
   deleteSession,
   updateSession,
+  setSessionNotes,
   clearAllSessions,
+  removeDuplicateTabs,
+  updateTabInSession,
+  deleteTabFromSession,
+  moveTab,
+  reorderSessions,
+  reorderGroups,
+  mergeSessions,
+  splitSession,
+  setSessionPinned,
+  recordSessionRestore,
 } from "@storage/sessions";
 import { exportData, parseImportData, restoreFromBackup } from "@storage/backups";
+import { getTagUsage, setSessionTags } from "@storage/tags";
+import {
+  getArchivedSessions,
+  getTrashedSessions,
+  archiveSession,
+  unarchiveSession,
+  trashSession,
+  restoreFromTrash,
+  purgeTrash,
+} from "@storage/archive";
 
 // Background module imports
-import { getCurrentWindowTabs, restoreSessionTabs } from "./tabCapture";
+import {
+  getCurrentWindowGroups,
+  captureAllWindows,
+  getHighlightedTabGroups,
+  getSelectedTabGroups,
+  getCurrentWindowTabList,
+  getScopeTabIds,
+  closeTabsKeepingWindows,
+  restoreSessionTabs,
+  getCurrentWindowId,
+  getCurrentWindowTabs,
+  getActiveTab,
+  openSingleTab,
+  extractDomain,
+  type CapturedGroup,
+  type CaptureOptions,
+} from "./tabCapture";
 import {
   getUndoStack,
   undoLastAction,
@@ -44,38 +107,133 @@ import {
   pushDeleteSessionUndo,
   pushRenameSessionUndo,
   pushImportUndo,
+  pushStashTabsUndo,
+  pushDedupeSessionUndo,
+  pushUpdateTabUndo,
+  pushDeleteTabUndo,
+  pushMoveTabUndo,
+  pushMergeSessionsUndo,
+  pushSplitSessionUndo,
+  pushTagSessionUndo,
+  pushArchiveSessionUndo,
+  pushEditNotesUndo,
 } from "./undo";
 import {
   handleCloudUpload,
   handleCloudDownloadPreview,
   handleCloudApplyRestore,
 } from "./cloudSync";
+import { getSettings, saveSettings, getCaptureOptions, getDedupeKey } from "./settings";
+import { setupAutoSaveAlarm } from "./alarms";
+import { addTabsToSession, getAddedGroupName } from "./addToSession";
+import { getWorkspaceBindings, bindWorkspace, unbindSession, switchWorkspace } from "./workspaces";
+import { consumeSearchFocus } from "./commands";
+import {
+  getRecoverableSnapshot,
+  restorePreviousBrowsingState,
+  dismissPreviousBrowsingState,
+} from "./recovery";
 
 // =============================================================================
-// Settings Helpers (chrome.storage.local)
+// Tier Helpers (chrome.storage.local)
 // =============================================================================
 
 /**
- * Get settings from chrome.storage.local.
+ * Get user tier from chrome.storage.local.
  */
-async function getSettings(): Promise<Settings> {
-  const result = await chrome.storage.local.get("settings");
-  return result.settings || DEFAULT_SETTINGS;
+async function getTier(): Promise<"free" | "pro"> {
+  const result = await chrome.storage.local.get("tier");
+  return result.tier || "free";
 }
 
+// =============================================================================
+// Capture Helpers
+// =============================================================================
+
 /**
- * Save settings to chrome.storage.local.
+ * Capture tab groups for the requested save scope, with the window ID
+ * each windowIndex came from.
  */
-async function saveSettings(settings: Settings): Promise<void> {
-  await chrome.storage.local.set({ settings });
+async function captureGroups(
+  scope: CaptureScope,
+  tabIds: number[] | undefined,
+  options: CaptureOptions
+): Promise<{ groups: CapturedGroup[]; windowIds: number[] }> {
+  switch (scope) {
+    case "allWindows":
+      return captureAllWindows(options);
+    case "highlighted":
+      return {
+        groups: await getHighlightedTabGroups(options),
+        windowIds: [await getCurrentWindowId()],
+      };
+    case "selected":
+      return {
+        groups: await getSelectedTabGroups(tabIds ?? [], options),
+        windowIds: [await getCurrentWindowId()],
+      };
+    case "currentWindow":
+    default:
+      return {
+        groups: await getCurrentWindowGroups(options),
+        windowIds: [await getCurrentWindowId()],
+      };
+  }
 }
 
+// =============================================================================
+// Tab Helpers
+// =============================================================================
+
 /**
- * Get user tier from chrome.storage.local.
+ * Check that a payload names a tab inside a session.
  */
-async function getTier(): Promise<"free" | "pro"> {
-  const result = await chrome.storage.local.get("tier");
-  return result.tier || "free";
+function isTabLocation(location: Partial<TabLocation> | undefined): location is TabLocation {
+  return (
+    !!location?.sessionId &&
+    !!location.groupId &&
+    typeof location.tabIndex === "number" &&
+    location.tabIndex >= 0
+  );
+}
+
+/**
+ * Turn a title/URL/note edit into tab updates.
+ * A changed URL also refreshes the domain, and drops the favicon and
+ * pre-normalization URL, which belonged to the old address.
+ */
+function getTabUpdates(
+  tab: TabSnapshot,
+  title?: string,
+  url?: string,
+  note?: string
+): Partial<TabSnapshot> | string {
+  const updates: Partial<TabSnapshot> = {};
+
+  if (title !== undefined) {
+    const trimmed = title.trim();
+    if (!trimmed) return "Title cannot be empty";
+    updates.title = trimmed;
+  }
+
+  if (url !== undefined && url.trim() !== tab.url) {
+    const trimmed = url.trim();
+    try {
+      new URL(trimmed);
+    } catch {
+      return "Enter a valid URL";
+    }
+    updates.url = trimmed;
+    updates.domain = extractDomain(trimmed);
+    updates.favicon = "";
+    updates.originalUrl = undefined;
+  }
+
+  if (note !== undefined) {
+    updates.note = note.trim().slice(0, MAX_TAB_NOTE_LENGTH) || undefined;
+  }
+
+  return updates;
 }
 
 // =============================================================================
@@ -106,27 +264,75 @@ export async function handleMessage(
       }
 
       case MessageAction.SAVE_SESSION: {
-        const { name } = (payload as SaveSessionPayload) || {};
+        const {
+          name,
+          scope = "currentWindow",
+          tabIds,
+          closeTabs = false,
+          dedupe,
+          trackWindow = false,
+        } = (payload as SaveSessionPayload) || {};
+
+        if (scope === "selected" && (!tabIds || tabIds.length === 0)) {
+          return { success: false, error: "No tabs selected" };
+        }
 
-        // Capture current tabs
-        const tabs = await getCurrentWindowTabs();
+        if (trackWindow && (scope !== "currentWindow" || closeTabs)) {
+          return { success: false, error: "Only a whole, open window can be kept in sync" };
+        }
 
-        if (tabs.length === 0) {
+        // Remember exactly which tabs are captured so a stash closes only those
+        const settings = await getSettings();
+        const captureOptions = getCaptureOptions(settings);
+        const capturedTabIds = closeTabs ? await getScopeTabIds(scope, tabIds, captureOptions) : [];
+
+        // Capture tabs, preserving native tab groups (and windows for allWindows)
+        const { groups, windowIds } = await captureGroups(scope, tabIds, captureOptions);
+        const tabCount = groups.reduce((total, group) => total + group.tabs.length, 0);
+
+        if (tabCount === 0) {
           return { success: false, error: "No tabs to save" };
         }
 
         // Create and save session
-        const session = await createSession(name || `Session ${new Date().toLocaleString()}`, tabs);
+        const session = await createSession(
+          name || `Session ${new Date().toLocaleString()}`,
+          groups,
+          { dedupe: dedupe ?? settings.dedupeOnSave, getDedupeKey: getDedupeKey(settings) }
+        );
 
-        // Push undo entry
-        await pushSaveSessionUndo(session.id);
+        // Stash: close the saved tabs, keeping their windows open
+        if (closeTabs) {
+          const placeholderTabIds = await closeTabsKeepingWindows(capturedTabIds);
+          await pushStashTabsUndo(session, placeholderTabIds, windowIds);
+        } else {
+          await pushSaveSessionUndo(session.id);
+        }
 
-        console.log("[TabFlow] Session saved:", session.id, "with", tabs.length, "tabs");
+        // Workspace: keep the session following this window from now on
+        if (trackWindow) {
+          await bindWorkspace(await getCurrentWindowId(), session.id);
+        }
+
+        console.log(
+          "[TabFlow] Session saved:",
+          session.id,
+          "with",
+          tabCount,
+          "tabs in",
+          groups.length,
+          "groups"
+        );
         return { success: true, data: session };
       }
 
+      case MessageAction.GET_WINDOW_TABS: {
+        const tabs = await getCurrentWindowTabList(getCaptureOptions(await getSettings()));
+        return { success: true, data: tabs };
+      }
+
       case MessageAction.RESTORE_SESSION: {
-        const { sessionId } = payload as RestoreSessionPayload;
+        const { sessionId, mode, lazy } = payload as RestoreSessionPayload;
 
         if (!sessionId) {
           return { success: false, error: "Session ID required" };
@@ -139,10 +345,26 @@ export async function handleMessage(
           return { success: false, error: "Session not found" };
         }
 
+        // Fall back to the user's restore preferences
+        const settings = await getSettings();
+        const restoreMode = mode ?? settings.restoreMode;
+
         // Restore tabs from all groups
-        const tabsOpened = await restoreSessionTabs(session.groups);
+        const tabsOpened = await restoreSessionTabs(session.groups, {
+          mode: restoreMode,
+          lazy: lazy ?? settings.lazyRestore,
+          concurrency: settings.restoreConcurrency,
+        });
+        await recordSessionRestore(sessionId);
 
-        console.log("[TabFlow] Session restored:", sessionId, "opened", tabsOpened, "tabs");
+        console.log(
+          "[TabFlow] Session restored:",
+          sessionId,
+          "opened",
+          tabsOpened,
+          "tabs",
+          `(${restoreMode})`
+        );
         return { success: true, data: { tabsOpened } };
       }
 
@@ -153,17 +375,16 @@ export async function handleMessage(
           return { success: false, error: "Session ID required" };
         }
 
-        // Delete the session (returns deleted session for undo)
-        const deletedSession = await deleteSession(sessionId);
+        // Move the session to the Trash; it's purged after the retention period
+        const { previousSession } = await trashSession(sessionId);
 
-        if (!deletedSession) {
-          return { success: false, error: "Session not found" };
-        }
+        // A deleted session stops following its window (until undone)
+        const windowId = await unbindSession(sessionId);
 
         // Push undo entry with full session data
-        await pushDeleteSessionUndo(deletedSession);
+        await pushDeleteSessionUndo(previousSession, windowId);
 
-        console.log("[TabFlow] Session deleted:", sessionId);
+        console.log("[TabFlow] Session moved to trash:", sessionId);
         return { success: true, data: { success: true } };
       }
 
@@ -206,6 +427,409 @@ export async function handleMessage(
         return { success: true, data: { session: updatedSession } };
       }
 
+      case MessageAction.DEDUPE_SESSION: {
+        const { sessionId } = payload as DedupeSessionPayload;
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        const settings = await getSettings();
+        const { previousSession, session, removedCount } = await removeDuplicateTabs(
+          sessionId,
+          getDedupeKey(settings)
+        );
+
+        // Nothing changed, nothing to undo
+        if (removedCount > 0) {
+          await pushDedupeSessionUndo(previousSession);
+        }
+
+        console.log("[TabFlow] Duplicates removed:", sessionId, removedCount);
+        return { success: true, data: { session, removedCount } };
+      }
+
+      case MessageAction.MERGE_SESSIONS: {
+        const { sessionIds, name, dedupe } = (payload as MergeSessionsPayload) || {};
+
+        if (!Array.isArray(sessionIds) || new Set(sessionIds).size < 2) {
+          return { success: false, error: "At least two sessions required" };
+        }
+
+        const settings = await getSettings();
+        const { previousSessions, session, removedCount } = await mergeSessions(sessionIds, {
+          name: name?.trim().slice(0, MAX_SESSION_NAME_LENGTH),
+          dedupe,
+          getDedupeKey: getDedupeKey(settings),
+        });
+        await pushMergeSessionsUndo(previousSessions);
+
+        // Merged-away sessions can no longer follow a window
+        for (const merged of previousSessions.slice(1)) {
+          await unbindSession(merged.id);
+        }
+
+        console.log("[TabFlow] Sessions merged:", session.id, previousSessions.length);
+        return { success: true, data: { session, removedCount } };
+      }
+
+      case MessageAction.SPLIT_SESSION: {
+        const { sessionId, groupIds, name } = (payload as SplitSessionPayload) || {};
+
+        if (!sessionId || !Array.isArray(groupIds) || groupIds.length === 0) {
+          return { success: false, error: "Session ID and group IDs required" };
+        }
+
+        const { previousSession, session, newSession } = await splitSession(
+          sessionId,
+          groupIds,
+          name?.trim().slice(0, MAX_SESSION_NAME_LENGTH) ?? ""
+        );
+        await pushSplitSessionUndo(previousSession, newSession.id);
+
+        console.log("[TabFlow] Session split:", sessionId, "→", newSession.id);
+        return { success: true, data: { session, newSession } };
+      }
+
+      case MessageAction.ADD_TO_SESSION: {
+        const { sessionId, groupId, scope } = (payload as AddToSessionPayload) || {};
+
+        if (!sessionId || (scope !== "tab" && scope !== "window")) {
+          return { success: false, error: "Session ID and scope required" };
+        }
+
+        const options = getCaptureOptions(await getSettings());
+        let tabs: TabSnapshot[];
+        if (scope === "tab") {
+          const tab = await getActiveTab(options);
+          tabs = tab ? [tab] : [];
+        } else {
+          tabs = await getCurrentWindowTabs(options);
+        }
+
+        if (tabs.length === 0) {
+          return {
+            success: false,
+            error: scope === "tab" ? "This tab can't be saved" : "No tabs to add",
+          };
+        }
+
+        const session = await addTabsToSession({ sessionId, groupId }, tabs, getAddedGroupName());
+        return { success: true, data: { session, tabsAdded: tabs.length } };
+      }
+
+      case MessageAction.PIN_SESSION: {
+        const { sessionId, pinned } = (payload as PinSessionPayload) || {};
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        const session = await setSessionPinned(sessionId, !!pinned);
+        return { success: true, data: { session } };
+      }
+
+      case MessageAction.REORDER_SESSIONS: {
+        const { sessionIds } = (payload as ReorderSessionsPayload) || {};
+
+        if (!Array.isArray(sessionIds)) {
+          return { success: false, error: "Session IDs required" };
+        }
+
+        const sessions = await reorderSessions(sessionIds);
+        return { success: true, data: sessions };
+      }
+
+      case MessageAction.REORDER_GROUPS: {
+        const { sessionId, groupIds } = (payload as ReorderGroupsPayload) || {};
+
+        if (!sessionId || !Array.isArray(groupIds)) {
+          return { success: false, error: "Session ID and group IDs required" };
+        }
+
+        const session = await reorderGroups(sessionId, groupIds);
+        return { success: true, data: { session } };
+      }
+
+      // =========================================================================
+      // Archive and Trash
+      // =========================================================================
+
+      case MessageAction.ARCHIVE_SESSION: {
+        const { sessionId } = (payload as ArchiveSessionPayload) || {};
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        const { previousSession, session } = await archiveSession(sessionId);
+
+        // An archived session stops following its window (until undone)
+        const windowId = await unbindSession(sessionId);
+        await pushArchiveSessionUndo(previousSession, windowId);
+
+        console.log("[TabFlow] Session archived:", sessionId);
+        return { success: true, data: { session } };
+      }
+
+      case MessageAction.UNARCHIVE_SESSION: {
+        const { sessionId } = (payload as UnarchiveSessionPayload) || {};
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        const session = await unarchiveSession(sessionId);
+
+        console.log("[TabFlow] Session unarchived:", sessionId);
+        return { success: true, data: { session } };
+      }
+
+      case MessageAction.GET_ARCHIVED_SESSIONS: {
+        const sessions = await getArchivedSessions();
+        return { success: true, data: sessions };
+      }
+
+      case MessageAction.GET_TRASHED_SESSIONS: {
+        const sessions = await getTrashedSessions();
+        return { success: true, data: sessions };
+      }
+
+      case MessageAction.RESTORE_FROM_TRASH: {
+        const { sessionId } = (payload as RestoreFromTrashPayload) || {};
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        const session = await restoreFromTrash(sessionId);
+
+        console.log("[TabFlow] Session restored from trash:", sessionId);
+        return { success: true, data: { session } };
+      }
+
+      case MessageAction.PURGE_SESSION: {
+        const { sessionId } = (payload as PurgeSessionPayload) || {};
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        // Only sessions already in the Trash can be deleted for good
+        const session = await getSession(sessionId);
+        if (!session) {
+          return { success: false, error: "Session not found" };
+        }
+        if (session.trashedAt === undefined) {
+          return { success: false, error: "Session is not in the trash" };
+        }
+
+        await deleteSession(sessionId);
+
+        console.log("[TabFlow] Session permanently deleted:", sessionId);
+        return { success: true, data: { success: true } };
+      }
+
+      case MessageAction.EMPTY_TRASH: {
+        const purgedCount = await purgeTrash(Infinity);
+
+        console.log("[TabFlow] Trash emptied:", purgedCount);
+        return { success: true, data: { purgedCount } };
+      }
+
+      // =========================================================================
+      // Tags
+      // =========================================================================
+
+      case MessageAction.GET_TAGS: {
+        const tags = await getTagUsage();
+        return { success: true, data: tags };
+      }
+
+      case MessageAction.SET_SESSION_TAGS: {
+        const { sessionId, tags } = (payload as SetSessionTagsPayload) || {};
+
+        if (!sessionId || !Array.isArray(tags)) {
+          return { success: false, error: "Session ID and tags required" };
+        }
+
+        // Enforce max length, skip blank names and unknown colors
+        const cleanTags: Tag[] = tags
+          .map((tag) => ({
+            name: String(tag?.name ?? "")
+              .trim()
+              .slice(0, MAX_TAG_NAME_LENGTH),
+            color: GROUP_COLORS.includes(tag?.color) ? tag.color : GROUP_COLORS[0],
+          }))
+          .filter((tag) => tag.name.length > 0);
+
+        const { previousSession, session } = await setSessionTags(sessionId, cleanTags);
+        await pushTagSessionUndo(previousSession);
+
+        console.log("[TabFlow] Session tags set:", sessionId, session.tags ?? []);
+        return { success: true, data: { session } };
+      }
+
+      // =========================================================================
+      // Notes
+      // =========================================================================
+
+      case MessageAction.SET_SESSION_NOTES: {
+        const { sessionId, notes } = (payload as SetSessionNotesPayload) || {};
+
+        if (!sessionId || typeof notes !== "string") {
+          return { success: false, error: "Session ID and notes required" };
+        }
+
+        // Enforce max length; keep the markdown as written apart from outer whitespace
+        const cleanNotes = notes.trim().slice(0, MAX_SESSION_NOTES_LENGTH);
+
+        const { previousSession, session } = await setSessionNotes(sessionId, cleanNotes);
+        await pushEditNotesUndo(previousSession);
+
+        console.log("[TabFlow] Session notes set:", sessionId);
+        return { success: true, data: { session } };
+      }
+
+      // =========================================================================
+      // Tab Operations
+      // =========================================================================
+
+      case MessageAction.OPEN_TAB: {
+        const location = payload as OpenTabPayload;
+
+        if (!isTabLocation(location)) {
+          return { success: false, error: "Tab location required" };
+        }
+
+        const session = await getSession(location.sessionId);
+        const tab = session?.groups.find((g) => g.id === location.groupId)?.tabs[location.tabIndex];
+
+        if (!tab) {
+          return { success: false, error: "Tab not found" };
+        }
+
+        await openSingleTab(tab);
+        return { success: true, data: { success: true } };
+      }
+
+      case MessageAction.UPDATE_TAB: {
+        const { title, url, note, ...location } = payload as UpdateTabPayload;
+
+        if (!isTabLocation(location)) {
+          return { success: false, error: "Tab location required" };
+        }
+
+        const session = await getSession(location.sessionId);
+        const tab = session?.groups.find((g) => g.id === location.groupId)?.tabs[location.tabIndex];
+
+        if (!tab) {
+          return { success: false, error: "Tab not found" };
+        }
+
+        const updates = getTabUpdates(tab, title, url, note);
+        if (typeof updates === "string") {
+          return { success: false, error: updates };
+        }
+
+        const { previousSession, session: updatedSession } = await updateTabInSession(
+          location,
+          updates
+        );
+        await pushUpdateTabUndo(previousSession);
+
+        console.log("[TabFlow] Tab updated in session:", location.sessionId);
+        return { success: true, data: { session: updatedSession } };
+      }
+
+      case MessageAction.DELETE_TAB: {
+        const location = payload as DeleteTabPayload;
+
+        if (!isTabLocation(location)) {
+          return { success: false, error: "Tab location required" };
+        }
+
+        const { previousSession, session } = await deleteTabFromSession(location);
+        await pushDeleteTabUndo(previousSession);
+
+        console.log("[TabFlow] Tab deleted from session:", location.sessionId);
+        return { success: true, data: { session } };
+      }
+
+      case MessageAction.MOVE_TAB: {
+        const { from, to } = (payload as MoveTabPayload) || {};
+
+        if (!isTabLocation(from) || !to?.sessionId) {
+          return { success: false, error: "Source and target required" };
+        }
+
+        const { previousSessions, sessions } = await moveTab(from, to);
+        await pushMoveTabUndo(previousSessions);
+
+        console.log("[TabFlow] Tab moved:", from.sessionId, "→", to.sessionId);
+        return { success: true, data: { sessions } };
+      }
+
+      // =========================================================================
+      // Workspaces
+      // =========================================================================
+
+      case MessageAction.GET_WORKSPACES: {
+        const [bindings, currentWindowId] = await Promise.all([
+          getWorkspaceBindings(),
+          getCurrentWindowId(),
+        ]);
+        return { success: true, data: { bindings, currentWindowId } };
+      }
+
+      case MessageAction.SWITCH_WORKSPACE: {
+        const { sessionId } = payload as SwitchWorkspacePayload;
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        const result = await switchWorkspace(sessionId);
+        if (!result.focused) {
+          await recordSessionRestore(sessionId);
+        }
+
+        console.log("[TabFlow] Switched workspace:", sessionId, result);
+        return { success: true, data: result };
+      }
+
+      case MessageAction.UNBIND_WORKSPACE: {
+        const { sessionId } = payload as UnbindWorkspacePayload;
+
+        if (!sessionId) {
+          return { success: false, error: "Session ID required" };
+        }
+
+        await unbindSession(sessionId);
+        return { success: true, data: { success: true } };
+      }
+
+      // =========================================================================
+      // Crash Recovery
+      // =========================================================================
+
+      case MessageAction.GET_PREVIOUS_STATE: {
+        const snapshot = await getRecoverableSnapshot();
+        return { success: true, data: { snapshot } };
+      }
+
+      case MessageAction.RESTORE_PREVIOUS_STATE: {
+        const tabsOpened = await restorePreviousBrowsingState();
+
+        console.log("[TabFlow] Previous browsing state restored:", tabsOpened, "tabs");
+        return { success: true, data: { tabsOpened } };
+      }
+
+      case MessageAction.DISMISS_PREVIOUS_STATE: {
+        await dismissPreviousBrowsingState();
+        return { success: true, data: { success: true } };
+      }
+
       // =========================================================================
       // Undo
       // =========================================================================
@@ -226,6 +850,15 @@ export async function handleMessage(
         return { success: true, data: stack };
       }
 
+      // =========================================================================
+      // Keyboard Shortcuts
+      // =========================================================================
+
+      case MessageAction.CONSUME_SEARCH_FOCUS: {
+        const focusSearch = await consumeSearchFocus();
+        return { success: true, data: { focusSearch } };
+      }
+
       // =========================================================================
       // Settings
       // =========================================================================
@@ -243,6 +876,7 @@ export async function handleMessage(
         }
 
         await saveSettings(newSettings);
+        await setupAutoSaveAlarm();
         console.log("[TabFlow] Settings updated");
         return { success: true, data: { success: true } };
       }
@@ -277,7 +911,7 @@ export async function handleMessage(
         }
 
         // Get current sessions for undo
-        const previousSessions = await getAllSessions();
+        const previousSessions = await getAllSessions({ includeHidden: true });
 
         // Clear and import
         const previousSessionsCopy = [...previousSessions];
@@ -295,7 +929,7 @@ export async function handleMessage(
 
       case MessageAction.CLEAR_DATA: {
         // Get current sessions for undo
-        const sessionsToDelete = await getAllSessions();
+        const sessionsToDelete = await getAllSessions({ includeHidden: true });
 
         // Clear all sessions
         await clearAllSessions();
@@ -376,7 +1010,7 @@ export async function handleMessage(
         }
 
         // Get current sessions for undo before applying
-        const previousSessions = await getAllSessions();
+        const previousSessions = await getAllSessions({ includeHidden: true });
 
         const result = await handleCloudApplyRestore(sessionsJson);
 
@@ -429,3 +1063,22 @@ export async function handleMessage(
     };
   }
 }
+
+/**
+ * Run a message through handleMessage() from inside the service worker
+ * (keyboard shortcuts, omnibox), the way the popup's sendMessage does.
+ *
+ * @throws Error with the handler's message if it fails
+ */
+export async function dispatchMessage<K extends MessageActionType>(
+  action: K,
+  payload?: unknown
+): Promise<MessageResponseMap[K]> {
+  const response = await handleMessage({ action, payload }, {});
+
+  if (!response.success) {
+    throw new Error(response.error || "Unknown error");
+  }
+
+  return response.data as MessageResponseMap[K];
+}
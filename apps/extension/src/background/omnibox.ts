@@ -0,0 +1,164 @@
+/**
+ * TabFlow – Omnibox
+ *
+ * Type "tf" and a space in the address bar to search saved sessions:
+ * session names, tags and notes match a session (Enter restores it), tab titles,
+ * URLs and group names match a tab (Enter opens it). The popup's search
+ * operators (tag:, domain:, ...) work here too.
+ *
+ * Design:
+ * - The search index is built when the keyword is entered and reused for
+ *   every keystroke, then dropped when the omnibox session ends
+ * - Opening and restoring go through handleMessage(), like the popup
+ * - Pressing Enter on typed text picks its best match
+ */
+
+import { MessageAction } from "@shared/messages";
+import { MAX_OMNIBOX_SUGGESTIONS } from "@shared/constants";
+import { getAllSessions } from "@storage/sessions";
+import { dispatchMessage } from "./messaging";
+import {
+  buildSearchIndex,
+  getHighlightTerms,
+  parseSearchQuery,
+  querySearchIndex,
+  splitHighlights,
+  type SearchHit,
+  type SearchIndex,
+} from "@shared/search";
+
+/**
+ * Index for the current omnibox session.
+ */
+let indexPromise: Promise<SearchIndex> | null = null;
+
+/**
+ * Hits behind the suggestions last shown, by suggestion content.
+ */
+let suggestedHits = new Map<string, SearchHit>();
+
+function getIndex(): Promise<SearchIndex> {
+  if (!indexPromise) {
+    indexPromise = getAllSessions().then(buildSearchIndex);
+    // A failed build shouldn't stick for the rest of the omnibox session
+    indexPromise.catch(() => {
+      indexPromise = null;
+    });
+  }
+  return indexPromise;
+}
+
+// =============================================================================
+// Suggestions
+// =============================================================================
+
+/**
+ * Escape text for an omnibox description (which is XML).
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Escape text and wrap the words matching the query in <match>.
+ */
+function highlight(text: string, terms: string[]): string {
+  return splitHighlights(text, terms)
+    .map((segment) =>
+      segment.match ? `<match>${escapeXml(segment.text)}</match>` : escapeXml(segment.text)
+    )
+    .join("");
+}
+
+function toSuggestion(hit: SearchHit, terms: string[]): chrome.omnibox.SuggestResult {
+  if (hit.kind === "session") {
+    const tabCount = hit.session.groups.reduce((sum, group) => sum + group.tabs.length, 0);
+    return {
+      content: `Restore session: ${hit.session.name}`,
+      description: `Restore ${highlight(hit.session.name, terms)} <dim>– ${tabCount} tab${
+        tabCount !== 1 ? "s" : ""
+      }</dim>`,
+    };
+  }
+
+  return {
+    content: hit.tab.url,
+    description: `${highlight(hit.tab.title || hit.tab.url, terms)} <dim>– ${escapeXml(
+      hit.session.name
+    )}</dim> <url>${highlight(hit.tab.url, terms)}</url>`,
+  };
+}
+
+/**
+ * Start a fresh index when the user enters the keyword.
+ */
+export function handleOmniboxInputStarted(): void {
+  chrome.omnibox.setDefaultSuggestion({ description: "Search TabFlow sessions and tabs" });
+  indexPromise = null;
+  getIndex().catch((error) => {
+    console.error("[TabFlow] Failed to build search index:", error);
+  });
+}
+
+/**
+ * Suggest sessions and tabs matching the text typed after the keyword.
+ */
+export async function handleOmniboxInputChanged(
+  text: string,
+  suggest: (suggestions: chrome.omnibox.SuggestResult[]) => void
+): Promise<void> {
+  const hits = querySearchIndex(await getIndex(), text, MAX_OMNIBOX_SUGGESTIONS);
+  const terms = getHighlightTerms(parseSearchQuery(text));
+
+  // Chrome requires unique contents; the same URL may be saved twice
+  suggestedHits = new Map();
+  const suggestions: chrome.omnibox.SuggestResult[] = [];
+  for (const hit of hits) {
+    const suggestion = toSuggestion(hit, terms);
+    if (suggestedHits.has(suggestion.content)) continue;
+    suggestedHits.set(suggestion.content, hit);
+    suggestions.push(suggestion);
+  }
+
+  suggest(suggestions);
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Open the chosen tab or restore the chosen session.
+ */
+export async function handleOmniboxInputEntered(text: string): Promise<void> {
+  try {
+    const hit = suggestedHits.get(text) ?? querySearchIndex(await getIndex(), text, 1)[0];
+
+    if (!hit) {
+      console.log("[TabFlow] No session or tab matches:", text);
+      return;
+    }
+
+    if (hit.kind === "session") {
+      await dispatchMessage(MessageAction.RESTORE_SESSION, { sessionId: hit.session.id });
+    } else {
+      await dispatchMessage(MessageAction.OPEN_TAB, hit.location);
+    }
+  } finally {
+    resetOmnibox();
+  }
+}
+
+/**
+ * Drop the index when the omnibox session ends, so the next one sees
+ * sessions saved in between.
+ */
+export function resetOmnibox(): void {
+  indexPromise = null;
+  suggestedHits = new Map();
+}
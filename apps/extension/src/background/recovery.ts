@@ -0,0 +1,173 @@
+/**
+ * TabFlow – Browsing State Recovery
+ *
+ * Keeps a snapshot of every open window so the last browsing state can be
+ * restored after a crash or an unexpected shutdown.
+ *
+ * Design:
+ * - Tab events schedule a snapshot (debounced), written to IndexedDB
+ * - Empty captures are never written, so the browser closing its windows
+ *   on shutdown doesn't wipe the last good snapshot
+ * - Closing a window schedules a snapshot too, unless it was the last one
+ *   (which is how a shutdown looks), so closed windows don't come back
+ * - On browser startup the snapshot is set aside as the "previous" state,
+ *   which the popup offers to restore if it differs from what is open
+ */
+
+import type { BrowsingSnapshot, Settings } from "@shared/types";
+import { BROWSING_SNAPSHOT_DEBOUNCE_MS } from "@shared/constants";
+import {
+  getPreviousBrowsingSnapshot,
+  saveBrowsingSnapshot,
+  rotateBrowsingSnapshot,
+  clearPreviousBrowsingSnapshot,
+} from "@storage/browsingState";
+import {
+  getAllWindowGroups,
+  hasOpenWindows,
+  restoreSessionTabs,
+  type CapturedGroup,
+} from "./tabCapture";
+import { getSettings, getCaptureOptions } from "./settings";
+
+// =============================================================================
+// State
+// =============================================================================
+
+/**
+ * Debounce timer for snapshots.
+ */
+let snapshotTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Pending startup rotation. Snapshots wait for it so the new browsing
+ * session can't overwrite the previous state before it is set aside.
+ */
+let startupRotation: Promise<unknown> = Promise.resolve();
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+/**
+ * Capture the open windows and store them as the current browsing state.
+ */
+async function takeSnapshot(settings: Settings): Promise<void> {
+  await startupRotation;
+
+  const groups = await getAllWindowGroups(getCaptureOptions(settings));
+  if (groups.length === 0) return;
+
+  await saveBrowsingSnapshot({ capturedAt: Date.now(), groups });
+}
+
+/**
+ * Schedule a snapshot of the open windows (debounced).
+ * Called from the tab event listeners.
+ */
+export function scheduleBrowsingSnapshot(): void {
+  if (snapshotTimeout) {
+    clearTimeout(snapshotTimeout);
+  }
+
+  snapshotTimeout = setTimeout(async () => {
+    snapshotTimeout = null;
+    try {
+      await takeSnapshot(await getSettings());
+    } catch (error) {
+      console.error("[TabFlow] Failed to save browsing snapshot:", error);
+    }
+  }, BROWSING_SNAPSHOT_DEBOUNCE_MS);
+}
+
+/**
+ * Drop a window the user closed from the browsing state.
+ * Called from windows.onRemoved; tab removals while a window closes are ignored.
+ */
+export async function handleWindowClosed(): Promise<void> {
+  if (await hasOpenWindows()) {
+    scheduleBrowsingSnapshot();
+  }
+}
+
+/**
+ * Set the last snapshot aside as the previous browsing state.
+ * Called on browser startup.
+ */
+export async function handleBrowserStartup(): Promise<void> {
+  startupRotation = rotateBrowsingSnapshot().catch((error) => {
+    console.error("[TabFlow] Failed to rotate browsing snapshot:", error);
+  });
+  await startupRotation;
+
+  scheduleBrowsingSnapshot();
+}
+
+// =============================================================================
+// Recovery
+// =============================================================================
+
+/**
+ * Compare two captures by their tab URLs, ignoring order.
+ */
+function hasSameUrls(a: CapturedGroup[], b: CapturedGroup[]): boolean {
+  const urls = (groups: CapturedGroup[]) =>
+    groups
+      .flatMap((group) => group.tabs.map((tab) => tab.url))
+      .sort()
+      .join("\n");
+  return urls(a) === urls(b);
+}
+
+/**
+ * Get the previous browsing state if it differs from what is open now.
+ * A previous state that matches the open tabs (e.g. Chrome restored the
+ * session itself) is cleared.
+ *
+ * @returns Promise resolving to the snapshot, or null if there is nothing to recover
+ */
+export async function getRecoverableSnapshot(): Promise<BrowsingSnapshot | null> {
+  const previous = await getPreviousBrowsingSnapshot();
+  if (!previous) return null;
+
+  const settings = await getSettings();
+  const open = await getAllWindowGroups(getCaptureOptions(settings));
+
+  if (hasSameUrls(previous.groups, open)) {
+    await clearPreviousBrowsingSnapshot();
+    return null;
+  }
+
+  return previous;
+}
+
+/**
+ * Reopen the previous browsing state, one window per captured window,
+ * using the user's restore preferences.
+ *
+ * @returns Promise resolving to number of tabs opened
+ * @throws Error if there is no previous state
+ */
+export async function restorePreviousBrowsingState(): Promise<number> {
+  const previous = await getPreviousBrowsingSnapshot();
+  if (!previous) {
+    throw new Error("No previous browsing state to restore");
+  }
+
+  const settings = await getSettings();
+  const tabsOpened = await restoreSessionTabs(previous.groups, {
+    mode: settings.restoreMode,
+    lazy: settings.lazyRestore,
+    concurrency: settings.restoreConcurrency,
+  });
+
+  await clearPreviousBrowsingSnapshot();
+  return tabsOpened;
+}
+
+/**
+ * Dismiss the previous browsing state without restoring it.
+ */
+export async function dismissPreviousBrowsingState(): Promise<void> {
+  await clearPreviousBrowsingSnapshot();
+}
@@ -0,0 +1,64 @@
+/**
+ * TabFlow – Settings Access
+ *
+ * Reads and writes user settings in chrome.storage.local, and derives
+ * the options other background modules need from them.
+ */
+
+import type { Settings, TabSnapshot } from "@shared/types";
+import { DEFAULT_SETTINGS } from "@shared/types";
+import { normalizeUrl, type CaptureOptions } from "./tabCapture";
+
+// =============================================================================
+// Settings Storage (chrome.storage.local)
+// =============================================================================
+
+/**
+ * Get settings from chrome.storage.local.
+ */
+export async function getSettings(): Promise<Settings> {
+  const result = await chrome.storage.local.get("settings");
+  // Merge with defaults so settings added in later versions are always present
+  return { ...DEFAULT_SETTINGS, ...result.settings };
+}
+
+/**
+ * Save settings to chrome.storage.local.
+ */
+export async function saveSettings(settings: Settings): Promise<void> {
+  await chrome.storage.local.set({ settings });
+}
+
+// =============================================================================
+// Derived Options
+// =============================================================================
+
+/**
+ * Build capture options from the user's settings.
+ */
+export function getCaptureOptions(settings: Settings): CaptureOptions {
+  return {
+    urlRules: settings.urlRules,
+    normalization: {
+      stripParams: settings.stripTrackingParams ? settings.trackingParams : [],
+      removeFragment: settings.removeUrlFragments,
+      trimTrailingSlash: settings.trimTrailingSlashes,
+      keepOriginalUrl: settings.keepOriginalUrls,
+    },
+  };
+}
+
+/**
+ * Build the key used to detect duplicate tabs.
+ * Tracking parameters and trailing slashes never change the page,
+ * so they are ignored even if URL cleanup is turned off.
+ */
+export function getDedupeKey(settings: Settings): (tab: TabSnapshot) => string {
+  const normalization = {
+    stripParams: settings.trackingParams,
+    removeFragment: settings.removeUrlFragments,
+    trimTrailingSlash: true,
+    keepOriginalUrl: false,
+  };
+  return (tab) => normalizeUrl(tab.url, normalization);
+}
@@ -5,12 +5,50 @@
  * This module is the ONLY place that interacts with chrome.tabs API.
  *
  * Privacy:
- * - Only captures: title, URL, domain, favicon
+ * - Only captures: title, URL, domain, favicon, and tab state (pinned, muted, active)
  * - Does NOT read page content
  * - Does NOT track browsing history
  */
 
-import type { TabSnapshot } from "@shared/types";
+import type { CaptureScope, Group, RestoreMode, TabSnapshot, UrlRule } from "@shared/types";
+import type { WindowTab } from "@shared/messages";
+import { isUrlAllowed } from "@shared/urlRules";
+import {
+  DEFAULT_GROUP_NAME,
+  UNGROUPED_GROUP_NAME,
+  UNTITLED_GROUP_NAME,
+  TAB_LOAD_TIMEOUT_MS,
+  TAB_DISCARD_WAIT_MS,
+  NEW_TAB_URL,
+} from "@shared/constants";
+
+/**
+ * A captured group of tabs that has not been assigned an ID yet.
+ * Storage assigns IDs when the session is created.
+ */
+export type CapturedGroup = Omit<Group, "id">;
+
+/**
+ * Options applied to every capture function.
+ */
+export interface CaptureOptions {
+  /** Include/exclude rules from settings */
+  urlRules?: UrlRule[];
+  /** URL normalization applied before URLs are stored */
+  normalization?: UrlNormalizationOptions;
+}
+
+/**
+ * Options for the URL normalization pipeline.
+ */
+export interface UrlNormalizationOptions {
+  /** Query parameter names to remove; a trailing "*" matches a prefix */
+  stripParams: string[];
+  removeFragment: boolean;
+  trimTrailingSlash: boolean;
+  /** Store the unmodified URL as originalUrl when normalization changed it */
+  keepOriginalUrl: boolean;
+}
 
 // =============================================================================
 // Domain Extraction
@@ -45,6 +83,78 @@ export function extractDomain(url: string): string {
   }
 }
 
+// =============================================================================
+// URL Normalization
+// =============================================================================
+
+/**
+ * A single normalization step. Mutates the parsed URL in place.
+ */
+type UrlNormalizer = (url: URL, options: UrlNormalizationOptions) => void;
+
+/**
+ * Check whether a query parameter name is on the strip list.
+ */
+function isStrippedParam(name: string, stripParams: string[]): boolean {
+  const lower = name.toLowerCase();
+  return stripParams.some((param) => {
+    const pattern = param.toLowerCase();
+    return pattern.endsWith("*") ? lower.startsWith(pattern.slice(0, -1)) : lower === pattern;
+  });
+}
+
+/**
+ * Normalization steps, applied in order.
+ */
+const URL_NORMALIZERS: UrlNormalizer[] = [
+  // Remove tracking parameters
+  (url, { stripParams }) => {
+    if (stripParams.length === 0) return;
+    for (const name of [...url.searchParams.keys()]) {
+      if (isStrippedParam(name, stripParams)) {
+        url.searchParams.delete(name);
+      }
+    }
+  },
+  // Remove the fragment
+  (url, { removeFragment }) => {
+    if (removeFragment) url.hash = "";
+  },
+  // Remove a trailing slash from non-root paths
+  (url, { trimTrailingSlash }) => {
+    if (trimTrailingSlash && url.pathname.length > 1 && url.pathname.endsWith("/")) {
+      url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+    }
+  },
+];
+
+/**
+ * Normalize a URL for storage and duplicate detection.
+ * Only http(s) URLs are changed; anything else is returned as-is.
+ *
+ * @param url - URL to normalize
+ * @param options - Normalization options
+ * @returns Normalized URL
+ */
+export function normalizeUrl(url: string, options: UrlNormalizationOptions): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return url;
+  }
+
+  for (const normalizer of URL_NORMALIZERS) {
+    normalizer(parsed, options);
+  }
+
+  return parsed.toString();
+}
+
 // =============================================================================
 // Tab Snapshot Creation
 // =============================================================================
@@ -52,15 +162,57 @@ export function extractDomain(url: string): string {
 /**
  * Convert a Chrome tab to a TabSnapshot.
  * Extracts only the metadata we need.
+ *
+ * @param tab - Chrome tab
+ * @param options - Capture options (URL normalization)
  */
-export function createTabSnapshot(tab: chrome.tabs.Tab): TabSnapshot {
+export function createTabSnapshot(tab: chrome.tabs.Tab, options: CaptureOptions = {}): TabSnapshot {
+  // lastAccessed exists since Chrome 121 but is missing from @types/chrome
+  const { lastAccessed } = tab as chrome.tabs.Tab & { lastAccessed?: number };
+  const rawUrl = tab.url || "";
+  const { normalization } = options;
+  const url = normalization ? normalizeUrl(rawUrl, normalization) : rawUrl;
+
   return {
     title: tab.title || "Untitled",
-    url: tab.url || "",
-    domain: extractDomain(tab.url || ""),
+    url,
+    domain: extractDomain(url),
     favicon: tab.favIconUrl || "",
     // lastAccessed is not always available, use current time as fallback
+    lastAccessed: lastAccessed ?? Date.now(),
+    pinned: tab.pinned,
+    muted: tab.mutedInfo?.muted ?? false,
+    active: tab.active,
+    index: tab.index,
+    ...(normalization?.keepOriginalUrl && url !== rawUrl ? { originalUrl: rawUrl } : {}),
+  };
+}
+
+/**
+ * Create a TabSnapshot for a URL that isn't open, such as a link.
+ *
+ * @param url - Link URL
+ * @param title - Link text (falls back to the URL)
+ * @param options - Capture options (URL rules, normalization)
+ * @returns The TabSnapshot, or undefined if the URL rules drop it
+ */
+export function createLinkSnapshot(
+  url: string,
+  title: string | undefined,
+  options: CaptureOptions = {}
+): TabSnapshot | undefined {
+  if (options.urlRules && !isUrlAllowed(url, options.urlRules)) return undefined;
+
+  const { normalization } = options;
+  const normalized = normalization ? normalizeUrl(url, normalization) : url;
+
+  return {
+    title: title?.trim() || normalized,
+    url: normalized,
+    domain: extractDomain(normalized),
+    favicon: "",
     lastAccessed: Date.now(),
+    ...(normalization?.keepOriginalUrl && normalized !== url ? { originalUrl: url } : {}),
   };
 }
 
@@ -68,39 +220,382 @@ export function createTabSnapshot(tab: chrome.tabs.Tab): TabSnapshot {
 // Tab Capture Functions
 // =============================================================================
 
+/**
+ * Check whether a tab should be captured.
+ * Filters out extension pages, tabs without a URL and tabs
+ * dropped by the user's URL rules.
+ */
+function isCapturableTab(tab: chrome.tabs.Tab, options: CaptureOptions = {}): boolean {
+  if (!tab.url) return false;
+  if (tab.url.startsWith("chrome-extension://")) return false;
+  if (options.urlRules && !isUrlAllowed(tab.url, options.urlRules)) return false;
+  return true;
+}
+
 /**
  * Get all tabs in the current window.
  *
+ * @param options - Capture options
  * @returns Promise resolving to array of TabSnapshots
  */
-export async function getCurrentWindowTabs(): Promise<TabSnapshot[]> {
+export async function getCurrentWindowTabs(options: CaptureOptions = {}): Promise<TabSnapshot[]> {
   const tabs = await chrome.tabs.query({ currentWindow: true });
-
   return tabs
-    .filter((tab) => {
-      // Filter out extension pages and invalid tabs
-      if (!tab.url) return false;
-      if (tab.url.startsWith("chrome-extension://")) return false;
-      return true;
-    })
-    .map(createTabSnapshot);
+    .filter((tab) => isCapturableTab(tab, options))
+    .map((tab) => createTabSnapshot(tab, options));
 }
 
 /**
  * Get all tabs across all windows.
  *
+ * @param options - Capture options
  * @returns Promise resolving to array of TabSnapshots
  */
-export async function getAllTabs(): Promise<TabSnapshot[]> {
+export async function getAllTabs(options: CaptureOptions = {}): Promise<TabSnapshot[]> {
   const tabs = await chrome.tabs.query({});
+  return tabs
+    .filter((tab) => isCapturableTab(tab, options))
+    .map((tab) => createTabSnapshot(tab, options));
+}
+
+/**
+ * Get the tabs of a specific window.
+ *
+ * @param windowId - Chrome window ID
+ * @param options - Capture options
+ * @returns Promise resolving to array of TabSnapshots
+ */
+export async function getWindowTabs(
+  windowId: number,
+  options: CaptureOptions = {}
+): Promise<TabSnapshot[]> {
+  const tabs = await chrome.tabs.query({ windowId });
+  return tabs
+    .filter((tab) => isCapturableTab(tab, options))
+    .map((tab) => createTabSnapshot(tab, options));
+}
+
+/**
+ * Capture a single Chrome tab, e.g. one handed to an event listener.
+ *
+ * @param tab - Chrome tab
+ * @param options - Capture options
+ * @returns The TabSnapshot, or undefined if the tab can't be captured
+ */
+export function captureTab(
+  tab: chrome.tabs.Tab,
+  options: CaptureOptions = {}
+): TabSnapshot | undefined {
+  return isCapturableTab(tab, options) ? createTabSnapshot(tab, options) : undefined;
+}
+
+/**
+ * Get the active tab of the current window.
+ *
+ * @param options - Capture options
+ * @returns Promise resolving to the TabSnapshot, or undefined if it can't be captured
+ */
+export async function getActiveTab(options: CaptureOptions = {}): Promise<TabSnapshot | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab ? captureTab(tab, options) : undefined;
+}
+
+// =============================================================================
+// Native Tab Group Capture
+// =============================================================================
+
+/**
+ * Look up native Chrome tab groups by ID.
+ * Returns an empty map if the tabGroups API is unavailable.
+ */
+async function getNativeGroups(): Promise<Map<number, chrome.tabGroups.TabGroup>> {
+  try {
+    const groups = await chrome.tabGroups.query({});
+    return new Map(groups.map((group) => [group.id, group]));
+  } catch (error) {
+    console.warn("[TabFlow] Failed to read tab groups:", error);
+    return new Map();
+  }
+}
+
+/**
+ * Split tabs into TabFlow groups that mirror native Chrome tab groups.
+ *
+ * - Each native group becomes one group (title, color, collapsed state)
+ * - Ungrouped tabs are collected into a single "Ungrouped" group
+ * - Groups are ordered by the position of their first tab
+ * - If no tab is in a native group, returns a single "All Tabs" group
+ *
+ * @param tabs - Chrome tabs in tab strip order
+ * @param options - Capture options
+ * @returns Promise resolving to captured groups
+ */
+export async function groupTabsByNativeGroup(
+  tabs: chrome.tabs.Tab[],
+  options: CaptureOptions = {}
+): Promise<CapturedGroup[]> {
+  const capturable = tabs.filter((tab) => isCapturableTab(tab, options));
+  const hasNativeGroups = capturable.some(
+    (tab) => tab.groupId !== undefined && tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+  );
+
+  if (!hasNativeGroups) {
+    return capturable.length > 0
+      ? [
+          {
+            name: DEFAULT_GROUP_NAME,
+            tabs: capturable.map((tab) => createTabSnapshot(tab, options)),
+          },
+        ]
+      : [];
+  }
+
+  const nativeGroups = await getNativeGroups();
+
+  // Map preserves insertion order, so groups follow tab strip order
+  const buckets = new Map<number, CapturedGroup>();
+
+  for (const tab of capturable) {
+    const nativeGroup = nativeGroups.get(tab.groupId);
+    const key = nativeGroup ? nativeGroup.id : chrome.tabGroups.TAB_GROUP_ID_NONE;
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = nativeGroup
+        ? {
+            name: nativeGroup.title || UNTITLED_GROUP_NAME,
+            tabs: [],
+            color: nativeGroup.color,
+            collapsed: nativeGroup.collapsed,
+          }
+        : { name: UNGROUPED_GROUP_NAME, tabs: [] };
+      buckets.set(key, bucket);
+    }
+
+    bucket.tabs.push(createTabSnapshot(tab, options));
+  }
+
+  return [...buckets.values()];
+}
+
+/**
+ * Capture the current window's tabs, preserving native tab groups.
+ *
+ * @param options - Capture options
+ * @returns Promise resolving to captured groups
+ */
+export async function getCurrentWindowGroups(
+  options: CaptureOptions = {}
+): Promise<CapturedGroup[]> {
+  const tabs = await chrome.tabs.query({ currentWindow: true });
+  return groupTabsByNativeGroup(tabs, options);
+}
+
+/**
+ * Capture one window's tabs, preserving native tab groups.
+ *
+ * @param windowId - Chrome window ID
+ * @param options - Capture options
+ * @returns Promise resolving to captured groups
+ */
+export async function getWindowGroups(
+  windowId: number,
+  options: CaptureOptions = {}
+): Promise<CapturedGroup[]> {
+  const tabs = await chrome.tabs.query({ windowId });
+  return groupTabsByNativeGroup(tabs, options);
+}
+
+/**
+ * Get the ID of the window the user is working in.
+ *
+ * @returns Promise resolving to the current window ID
+ * @throws Error if there is no current window
+ */
+export async function getCurrentWindowId(): Promise<number> {
+  const window = await chrome.windows.getCurrent();
+  if (window.id === undefined) {
+    throw new Error("No current window");
+  }
+  return window.id;
+}
+
+/**
+ * Bring a window to the front.
+ *
+ * @param windowId - Chrome window ID
+ * @returns Promise resolving to false if the window no longer exists
+ */
+export async function focusWindow(windowId: number): Promise<boolean> {
+  try {
+    await chrome.windows.update(windowId, { focused: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether any normal browser window is open.
+ */
+export async function hasOpenWindows(): Promise<boolean> {
+  const windows = await chrome.windows.getAll({ windowTypes: ["normal"] });
+  return windows.length > 0;
+}
+
+/**
+ * Check whether a window is still open.
+ *
+ * @param windowId - Chrome window ID
+ */
+export async function windowExists(windowId: number): Promise<boolean> {
+  try {
+    await chrome.windows.get(windowId);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Capture only the highlighted (multi-selected) tabs in the current window,
+ * preserving native tab groups.
+ *
+ * @param options - Capture options
+ * @returns Promise resolving to captured groups
+ */
+export async function getHighlightedTabGroups(
+  options: CaptureOptions = {}
+): Promise<CapturedGroup[]> {
+  const tabs = await chrome.tabs.query({ currentWindow: true, highlighted: true });
+  return groupTabsByNativeGroup(tabs, options);
+}
+
+/**
+ * Capture specific tabs from the current window, preserving native tab groups.
+ * Unknown IDs are ignored.
+ *
+ * @param tabIds - Chrome tab IDs to capture
+ * @param options - Capture options
+ * @returns Promise resolving to captured groups
+ */
+export async function getSelectedTabGroups(
+  tabIds: number[],
+  options: CaptureOptions = {}
+): Promise<CapturedGroup[]> {
+  const selected = new Set(tabIds);
+  const tabs = await chrome.tabs.query({ currentWindow: true });
+  return groupTabsByNativeGroup(
+    tabs.filter((tab) => tab.id !== undefined && selected.has(tab.id)),
+    options
+  );
+}
+
+/**
+ * List capturable tabs in the current window with their Chrome IDs,
+ * so the popup can offer them for selection.
+ *
+ * @param options - Capture options
+ * @returns Promise resolving to window tabs in tab strip order
+ */
+export async function getCurrentWindowTabList(options: CaptureOptions = {}): Promise<WindowTab[]> {
+  const tabs = await chrome.tabs.query({ currentWindow: true });
+
+  return tabs
+    .filter((tab) => isCapturableTab(tab, options) && tab.id !== undefined)
+    .map((tab) => ({
+      ...createTabSnapshot(tab, options),
+      tabId: tab.id!,
+      highlighted: tab.highlighted,
+    }));
+}
+
+/**
+ * Capture every normal window, preserving native tab groups.
+ * Each window's groups are tagged with a windowIndex so restore can
+ * recreate the same windows. A window without native groups is captured
+ * as a single group named after the window.
+ *
+ * @param options - Capture options
+ * @returns Promise resolving to captured groups across all windows
+ */
+export async function getAllWindowGroups(options: CaptureOptions = {}): Promise<CapturedGroup[]> {
+  return (await captureAllWindows(options)).groups;
+}
+
+/**
+ * Capture every normal window like getAllWindowGroups(), also reporting
+ * which Chrome window each windowIndex came from.
+ *
+ * @param options - Capture options
+ * @returns Promise resolving to the groups and the window ID per windowIndex
+ */
+export async function captureAllWindows(
+  options: CaptureOptions = {}
+): Promise<{ groups: CapturedGroup[]; windowIds: number[] }> {
+  const windows = await chrome.windows.getAll({ populate: true, windowTypes: ["normal"] });
+  const captured: CapturedGroup[] = [];
+  const windowIds: number[] = [];
+  let windowIndex = 0;
+
+  for (const window of windows) {
+    const groups = await groupTabsByNativeGroup(window.tabs ?? [], options);
+    if (groups.length === 0) continue;
+
+    for (const group of groups) {
+      const isDefaultGroup = groups.length === 1 && group.name === DEFAULT_GROUP_NAME;
+      captured.push({
+        ...group,
+        name: isDefaultGroup ? `Window ${windowIndex + 1}` : group.name,
+        windowIndex,
+      });
+    }
+
+    windowIds[windowIndex] = window.id ?? chrome.windows.WINDOW_ID_NONE;
+    windowIndex++;
+  }
+
+  return { groups: captured, windowIds };
+}
+
+/**
+ * Get the IDs of the tabs a capture scope would save.
+ * Uses the same queries as the capture functions above.
+ *
+ * @param scope - Capture scope
+ * @param tabIds - Chrome tab IDs for the "selected" scope
+ * @param options - Capture options
+ * @returns Promise resolving to capturable tab IDs
+ */
+export async function getScopeTabIds(
+  scope: CaptureScope,
+  tabIds: number[] = [],
+  options: CaptureOptions = {}
+): Promise<number[]> {
+  let tabs: chrome.tabs.Tab[];
+
+  switch (scope) {
+    case "allWindows":
+      tabs = await chrome.tabs.query({ windowType: "normal" });
+      break;
+    case "highlighted":
+      tabs = await chrome.tabs.query({ currentWindow: true, highlighted: true });
+      break;
+    case "selected": {
+      const selected = new Set(tabIds);
+      tabs = (await chrome.tabs.query({ currentWindow: true })).filter(
+        (tab) => tab.id !== undefined && selected.has(tab.id)
+      );
+      break;
+    }
+    case "currentWindow":
+    default:
+      tabs = await chrome.tabs.query({ currentWindow: true });
+  }
 
   return tabs
-    .filter((tab) => {
-      if (!tab.url) return false;
-      if (tab.url.startsWith("chrome-extension://")) return false;
-      return true;
-    })
-    .map(createTabSnapshot);
+    .filter((tab) => isCapturableTab(tab, options))
+    .flatMap((tab) => (tab.id !== undefined ? [tab.id] : []));
 }
 
 /**
@@ -124,50 +619,457 @@ export async function getTabById(tabId: number): Promise<TabSnapshot | undefined
 // =============================================================================
 
 /**
- * Open tabs from an array of TabSnapshots.
- * Opens tabs in the current window.
+ * Check whether a snapshot can be reopened.
+ * chrome:// and extension URLs cannot be opened by extensions.
+ */
+function isRestorableTab(tab: TabSnapshot): boolean {
+  if (!tab.url || tab.url === "") return false;
+  if (tab.url.startsWith("chrome://")) return false;
+  if (tab.url.startsWith("chrome-extension://")) return false;
+  return true;
+}
+
+/**
+ * Check whether a saved tab comes back when the window it is restored into
+ * is captured again. Unrestorable pages and URLs dropped by the URL rules don't.
  *
- * @param tabs - Array of TabSnapshots to restore
- * @returns Promise resolving to number of tabs opened
+ * @param tab - Saved tab
+ * @param options - Capture options the window will be captured with
+ */
+export function isRecapturedTab(tab: TabSnapshot, options: CaptureOptions = {}): boolean {
+  if (!isRestorableTab(tab)) return false;
+  return !options.urlRules || isUrlAllowed(tab.url, options.urlRules);
+}
+
+/**
+ * Open a single saved tab in the current window and switch to it.
+ *
+ * @param tab - Snapshot to open
+ * @throws Error if the URL cannot be opened by an extension
+ */
+export async function openSingleTab(tab: TabSnapshot): Promise<void> {
+  if (!isRestorableTab(tab)) {
+    throw new Error("This page can't be reopened by an extension");
+  }
+
+  const created = await chrome.tabs.create({ url: tab.url, pinned: tab.pinned ?? false });
+  if (tab.muted && created.id !== undefined) {
+    await chrome.tabs.update(created.id, { muted: true });
+  }
+}
+
+/**
+ * Open one of the extension's own pages in a new tab.
+ *
+ * @param path - Page path within the extension, e.g. "popup.html"
+ */
+export async function openExtensionPage(path: string): Promise<void> {
+  await chrome.tabs.create({ url: chrome.runtime.getURL(path) });
+}
+
+/**
+ * Options controlling how tabs are restored.
+ */
+export interface RestoreOptions {
+  /** Where to open the tabs (default: currentWindow) */
+  mode?: RestoreMode;
+  /** Discard tabs after creation so they only load when focused (default: false) */
+  lazy?: boolean;
+  /** Maximum tabs loading at once, 0 for unlimited (default: 0) */
+  concurrency?: number;
+  /**
+   * Window to reopen each windowIndex in, instead of the focused window and
+   * new windows; a missing or closed window is replaced by a new one
+   */
+  windowIds?: number[];
+}
+
+/**
+ * Tracks in-flight tab loads and blocks new ones past a limit.
+ */
+interface LoadLimiter {
+  acquire: () => Promise<void>;
+  track: (load: Promise<void>) => void;
+  drain: () => Promise<void>;
+}
+
+/**
+ * Create a limiter allowing at most `limit` tabs to load at once.
+ * A limit of 0 disables throttling.
+ */
+function createLoadLimiter(limit: number): LoadLimiter {
+  const pending = new Set<Promise<void>>();
+
+  return {
+    async acquire() {
+      while (limit > 0 && pending.size >= limit) {
+        await Promise.race(pending);
+      }
+    },
+    track(load) {
+      const tracked = load.finally(() => pending.delete(tracked));
+      pending.add(tracked);
+    },
+    async drain() {
+      await Promise.all(pending);
+    },
+  };
+}
+
+/**
+ * Wait until a tab satisfies a condition, is closed, or the timeout elapses.
+ * Never rejects – callers treat a timeout the same as success.
+ */
+function waitForTab(
+  tabId: number,
+  condition: (tab: chrome.tabs.Tab) => boolean,
+  timeoutMs: number
+): Promise<void> {
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+      chrome.tabs.onRemoved.removeListener(handleRemoved);
+      resolve();
+    };
+
+    const handleUpdated = (
+      id: number,
+      _changeInfo: chrome.tabs.TabChangeInfo,
+      tab: chrome.tabs.Tab
+    ) => {
+      if (id === tabId && condition(tab)) finish();
+    };
+
+    const handleRemoved = (id: number) => {
+      if (id === tabId) finish();
+    };
+
+    const timer = setTimeout(finish, timeoutMs);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+    chrome.tabs.onRemoved.addListener(handleRemoved);
+
+    // The tab may already be in the desired state
+    chrome.tabs
+      .get(tabId)
+      .then((tab) => condition(tab) && finish())
+      .catch(finish);
+  });
+}
+
+/**
+ * Discard a freshly created tab once its URL is committed.
+ * Discarding earlier would leave the tab pointing at about:blank.
+ */
+async function discardWhenReady(tabId: number): Promise<void> {
+  await waitForTab(tabId, (tab) => !!tab.url && tab.url !== "about:blank", TAB_DISCARD_WAIT_MS);
+
+  try {
+    await chrome.tabs.discard(tabId);
+  } catch (error) {
+    // Tab stays loaded – not worth failing the restore over
+    console.warn("[TabFlow] Failed to discard restored tab:", tabId, error);
+  }
+}
+
+/**
+ * A restored Chrome tab paired with the snapshot it was created from.
+ */
+interface RestoredTab {
+  tabId: number;
+  snapshot: TabSnapshot;
+}
+
+/**
+ * Open tabs in a window, in order.
+ * Each created tab occupies a limiter slot until it has loaded (or been discarded).
+ * Pinned and muted state is reapplied; the previously active tab is never discarded.
+ *
+ * @param tabs - Array of TabSnapshots to open
+ * @param windowId - Target window (defaults to the current window)
+ * @param limiter - Limits concurrent loads across the whole restore
+ * @param lazy - Whether to discard tabs after creation
+ * @returns Promise resolving to the created tabs
  */
-export async function restoreTabs(tabs: TabSnapshot[]): Promise<number> {
-  let opened = 0;
+async function openTabs(
+  tabs: TabSnapshot[],
+  windowId: number | undefined,
+  limiter: LoadLimiter,
+  lazy: boolean
+): Promise<RestoredTab[]> {
+  const restored: RestoredTab[] = [];
 
   for (const tab of tabs) {
-    // Skip invalid URLs
-    if (!tab.url || tab.url === "") continue;
+    if (!isRestorableTab(tab)) continue;
 
-    // Skip chrome:// and extension URLs (can't open them)
-    if (tab.url.startsWith("chrome://")) continue;
-    if (tab.url.startsWith("chrome-extension://")) continue;
+    await limiter.acquire();
 
     try {
-      await chrome.tabs.create({
+      const created = await chrome.tabs.create({
         url: tab.url,
+        windowId,
+        pinned: tab.pinned ?? false,
         active: false, // Don't switch to each tab
       });
-      opened++;
+
+      if (created.id === undefined) continue;
+      restored.push({ tabId: created.id, snapshot: tab });
+
+      if (tab.muted) {
+        await chrome.tabs.update(created.id, { muted: true });
+      }
+
+      limiter.track(
+        lazy && !tab.active
+          ? discardWhenReady(created.id)
+          : waitForTab(created.id, (t) => t.status === "complete", TAB_LOAD_TIMEOUT_MS)
+      );
     } catch (error) {
       console.warn("[TabFlow] Failed to restore tab:", tab.url, error);
     }
   }
 
-  return opened;
+  return restored;
+}
+
+/**
+ * Check whether a group should become a native Chrome tab group on restore.
+ * Groups captured from native groups always do; the "Ungrouped" bucket and
+ * a lone default group stay as plain tabs.
+ */
+function shouldCreateNativeGroup(group: CapturedGroup, groupCount: number): boolean {
+  if (group.color) return true;
+  if (groupCount < 2) return false;
+  return group.name !== UNGROUPED_GROUP_NAME;
+}
+
+/**
+ * Group restored tabs into a native Chrome tab group.
+ * Failures are logged and leave the tabs ungrouped.
+ */
+async function createNativeGroup(
+  tabIds: number[],
+  windowId: number,
+  group: CapturedGroup
+): Promise<void> {
+  if (tabIds.length === 0) return;
+
+  try {
+    const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } });
+    await chrome.tabGroups.update(groupId, {
+      title: group.name,
+      color: group.color,
+      collapsed: group.collapsed,
+    });
+  } catch (error) {
+    console.warn("[TabFlow] Failed to create tab group:", group.name, error);
+  }
+}
+
+/**
+ * Restore one window's worth of groups.
+ *
+ * @param groups - Groups belonging to the same window
+ * @param mode - Where to open the tabs
+ * @param limiter - Limits concurrent loads across the whole restore
+ * @param lazy - Whether to discard tabs after creation
+ * @returns Promise resolving to number of tabs opened
+ */
+async function restoreWindow(
+  groups: CapturedGroup[],
+  mode: RestoreMode,
+  limiter: LoadLimiter,
+  lazy: boolean,
+  targetWindowId?: number
+): Promise<number> {
+  let windowId: number;
+  let tabsToClose: number[] = [];
+
+  if (mode === "newWindow") {
+    // A new window always starts with one blank tab; remove it once restored
+    const window = await chrome.windows.create({ focused: true });
+    if (window?.id === undefined) {
+      throw new Error("Failed to open a new window");
+    }
+    windowId = window.id;
+    tabsToClose = (window.tabs ?? []).flatMap((tab) => (tab.id !== undefined ? [tab.id] : []));
+  } else {
+    const populate = mode === "replaceWindow";
+    const window =
+      targetWindowId !== undefined
+        ? await chrome.windows.get(targetWindowId, { populate })
+        : await chrome.windows.getCurrent({ populate });
+    if (window.id === undefined) {
+      throw new Error("No current window to restore into");
+    }
+    windowId = window.id;
+    if (mode === "replaceWindow") {
+      tabsToClose = (window.tabs ?? []).flatMap((tab) => (tab.id !== undefined ? [tab.id] : []));
+    }
+  }
+
+  const allRestored: RestoredTab[] = [];
+
+  for (const group of groups) {
+    const restored = await openTabs(group.tabs, windowId, limiter, lazy);
+    allRestored.push(...restored);
+
+    if (shouldCreateNativeGroup(group, groups.length)) {
+      // Chrome does not allow pinned tabs inside tab groups
+      const groupableIds = restored.filter((t) => !t.snapshot.pinned).map((t) => t.tabId);
+      await createNativeGroup(groupableIds, windowId, group);
+    }
+  }
+
+  const totalOpened = allRestored.length;
+
+  // When the restored tabs own the window, focus the tab that was active at capture
+  const activeTab = allRestored.find((t) => t.snapshot.active);
+  if (mode !== "currentWindow" && activeTab) {
+    try {
+      await chrome.tabs.update(activeTab.tabId, { active: true });
+    } catch (error) {
+      console.warn("[TabFlow] Failed to activate restored tab:", error);
+    }
+  }
+
+  // Wait for outstanding loads/discards so callers see a settled window
+  await limiter.drain();
+
+  // Only close existing tabs once something was restored, so the window survives
+  if (totalOpened > 0 && tabsToClose.length > 0) {
+    try {
+      await chrome.tabs.remove(tabsToClose);
+    } catch (error) {
+      console.warn("[TabFlow] Failed to close replaced tabs:", error);
+    }
+  }
+
+  return totalOpened;
+}
+
+/**
+ * Split groups into per-window lists, ordered by windowIndex.
+ * Groups without a windowIndex belong to the first window.
+ */
+function splitGroupsByWindow(groups: CapturedGroup[]): CapturedGroup[][] {
+  const windows = new Map<number, CapturedGroup[]>();
+
+  for (const group of groups) {
+    const key = group.windowIndex ?? 0;
+    const windowGroups = windows.get(key) ?? [];
+    windowGroups.push(group);
+    windows.set(key, windowGroups);
+  }
+
+  return [...windows.entries()].sort(([a], [b]) => a - b).map(([, windowGroups]) => windowGroups);
 }
 
 /**
  * Open all tabs from a session's groups.
  *
+ * Modes:
+ * - currentWindow: append tabs to the current window
+ * - newWindow: open a fresh window containing only the restored tabs
+ * - replaceWindow: open tabs in the current window, then close the tabs that were there
+ *
+ * Multi-window sessions recreate the same number of windows: the first window
+ * follows the mode, every further window opens as a new window. With
+ * options.windowIds, each window goes back into its own window instead.
+ *
+ * Groups are recreated as native Chrome tab groups (name, color, collapsed)
+ * and tab order is preserved. Pinned and muted state is reapplied, and in
+ * new/replace modes the previously active tab is focused. Large sessions can
+ * be restored lazily and/or with a cap on how many tabs load at once.
+ *
  * @param groups - Array of groups containing tabs
+ * @param options - Restore mode, lazy loading and concurrency options
  * @returns Promise resolving to number of tabs opened
  */
-export async function restoreSessionTabs(groups: { tabs: TabSnapshot[] }[]): Promise<number> {
+export async function restoreSessionTabs(
+  groups: CapturedGroup[],
+  options: RestoreOptions = {}
+): Promise<number> {
+  const { mode = "currentWindow", lazy = false, concurrency = 0, windowIds } = options;
+  const limiter = createLoadLimiter(concurrency);
+  const windows = splitGroupsByWindow(groups);
+
   let totalOpened = 0;
 
-  for (const group of groups) {
-    const opened = await restoreTabs(group.tabs);
-    totalOpened += opened;
+  for (let i = 0; i < windows.length; i++) {
+    let windowMode: RestoreMode = i === 0 ? mode : "newWindow";
+    let targetWindowId: number | undefined;
+
+    if (windowIds) {
+      targetWindowId = windowIds[windows[i][0].windowIndex ?? 0];
+      if (targetWindowId === undefined || !(await windowExists(targetWindowId))) {
+        targetWindowId = undefined;
+        windowMode = "newWindow";
+      } else {
+        windowMode = mode;
+      }
+    }
+
+    totalOpened += await restoreWindow(windows[i], windowMode, limiter, lazy, targetWindowId);
   }
 
   return totalOpened;
 }
+
+// =============================================================================
+// Stashing (Close After Save)
+// =============================================================================
+
+/**
+ * Close tabs after they were saved, keeping every affected window open.
+ * A window that would lose all of its tabs gets a fresh New Tab page first.
+ *
+ * @param tabIds - Chrome tab IDs to close
+ * @returns Promise resolving to the IDs of the placeholder tabs that were opened
+ */
+export async function closeTabsKeepingWindows(tabIds: number[]): Promise<number[]> {
+  if (tabIds.length === 0) return [];
+
+  const closing = new Set(tabIds);
+  const openTabs = await chrome.tabs.query({});
+  const windowIds = new Set(
+    openTabs.filter((tab) => tab.id !== undefined && closing.has(tab.id)).map((tab) => tab.windowId)
+  );
+
+  const placeholderTabIds: number[] = [];
+
+  for (const windowId of windowIds) {
+    const survivesClose = openTabs.some(
+      (tab) => tab.windowId === windowId && (tab.id === undefined || !closing.has(tab.id))
+    );
+    if (survivesClose) continue;
+
+    const placeholder = await chrome.tabs.create({ windowId, active: true });
+    if (placeholder.id !== undefined) {
+      placeholderTabIds.push(placeholder.id);
+    }
+  }
+
+  await chrome.tabs.remove(tabIds);
+  return placeholderTabIds;
+}
+
+/**
+ * Close placeholder tabs opened by a stash, if the user hasn't navigated
+ * them anywhere since. Missing tabs are ignored.
+ *
+ * @param tabIds - Placeholder tab IDs returned by closeTabsKeepingWindows
+ */
+export async function closePlaceholderTabs(tabIds: number[]): Promise<void> {
+  for (const tabId of tabIds) {
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      const url = tab.pendingUrl || tab.url || "";
+      if (url === "" || url.startsWith(NEW_TAB_URL)) {
+        await chrome.tabs.remove(tabId);
+      }
+    } catch {
+      // Tab already closed
+    }
+  }
+}
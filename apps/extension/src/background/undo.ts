@@ -20,6 +20,17 @@ import {
   createDeleteSessionUndo,
   createRenameSessionUndo,
   createImportUndo,
+  createStashTabsUndo,
+  createDedupeSessionUndo,
+  createUpdateTabUndo,
+  createDeleteTabUndo,
+  createMoveTabUndo,
+  createMergeSessionsUndo,
+  createSplitSessionUndo,
+  createAddToSessionUndo,
+  createTagSessionUndo,
+  createArchiveSessionUndo,
+  createEditNotesUndo,
 } from "@storage/undoStore";
 import {
   deleteSession as deleteSessionFromStorage,
@@ -28,6 +39,8 @@ import {
   clearAllSessions,
   importSessions,
 } from "@storage/sessions";
+import { restoreSessionTabs, closePlaceholderTabs } from "./tabCapture";
+import { rebindWorkspace } from "./workspaces";
 
 // =============================================================================
 // In-Memory Undo Stack
@@ -203,8 +216,8 @@ export async function pushSaveSessionUndo(sessionId: string): Promise<void> {
 /**
  * Push an undo entry for deleting a session.
  */
-export async function pushDeleteSessionUndo(session: Session): Promise<void> {
-  const entry = createDeleteSessionUndo(session);
+export async function pushDeleteSessionUndo(session: Session, windowId?: number): Promise<void> {
+  const entry = createDeleteSessionUndo(session, windowId);
   await pushUndo(entry);
 }
 
@@ -228,6 +241,104 @@ export async function pushImportUndo(previousSessions: Session[]): Promise<void>
   await pushUndo(entry);
 }
 
+/**
+ * Push an undo entry for removing duplicate tabs from a session.
+ */
+export async function pushDedupeSessionUndo(previousSession: Session): Promise<void> {
+  const entry = createDedupeSessionUndo(previousSession);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for editing a tab's title or URL.
+ */
+export async function pushUpdateTabUndo(previousSession: Session): Promise<void> {
+  const entry = createUpdateTabUndo(previousSession);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for deleting a single tab.
+ */
+export async function pushDeleteTabUndo(previousSession: Session): Promise<void> {
+  const entry = createDeleteTabUndo(previousSession);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for moving a tab between groups or sessions.
+ */
+export async function pushMoveTabUndo(previousSessions: Session[]): Promise<void> {
+  const entry = createMoveTabUndo(previousSessions);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for merging sessions.
+ */
+export async function pushMergeSessionsUndo(previousSessions: Session[]): Promise<void> {
+  const entry = createMergeSessionsUndo(previousSessions);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for splitting a session.
+ */
+export async function pushSplitSessionUndo(
+  previousSession: Session,
+  newSessionId: string
+): Promise<void> {
+  const entry = createSplitSessionUndo(previousSession, newSessionId);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for adding tabs to an existing session.
+ */
+export async function pushAddToSessionUndo(previousSession: Session): Promise<void> {
+  const entry = createAddToSessionUndo(previousSession);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for changing a session's tags.
+ */
+export async function pushTagSessionUndo(previousSession: Session): Promise<void> {
+  const entry = createTagSessionUndo(previousSession);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for archiving a session.
+ */
+export async function pushArchiveSessionUndo(
+  previousSession: Session,
+  windowId?: number
+): Promise<void> {
+  const entry = createArchiveSessionUndo(previousSession, windowId);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for editing a session's notes.
+ */
+export async function pushEditNotesUndo(previousSession: Session): Promise<void> {
+  const entry = createEditNotesUndo(previousSession);
+  await pushUndo(entry);
+}
+
+/**
+ * Push an undo entry for stashing tabs.
+ */
+export async function pushStashTabsUndo(
+  session: Session,
+  placeholderTabIds: number[],
+  windowIds?: number[]
+): Promise<void> {
+  const entry = createStashTabsUndo(session, placeholderTabIds, windowIds);
+  await pushUndo(entry);
+}
+
 // =============================================================================
 // Undo Execution
 // =============================================================================
@@ -251,9 +362,12 @@ export async function executeUndo(entry: UndoEntry): Promise<UndoEntry> {
     }
 
     case "DELETE_SESSION": {
-      // Undo delete = restore the session
-      const data = entry.data as { session: Session };
+      // Undo delete = take the session back out of the Trash (or re-create it)
+      const data = entry.data as { session: Session; windowId?: number };
       await saveSessionToStorage(data.session);
+      if (data.windowId !== undefined) {
+        await rebindWorkspace(data.windowId, data.session.id);
+      }
       break;
     }
 
@@ -281,6 +395,76 @@ export async function executeUndo(entry: UndoEntry): Promise<UndoEntry> {
       break;
     }
 
+    case "DEDUPE_SESSION": {
+      // Undo dedupe = restore the session with its duplicates
+      const data = entry.data as { previousSession: Session };
+      await saveSessionToStorage(data.previousSession);
+      break;
+    }
+
+    case "UPDATE_TAB":
+    case "DELETE_TAB":
+    case "ADD_TO_SESSION":
+    case "TAG_SESSION":
+    case "EDIT_NOTES": {
+      // Undo tab edit/delete/add, tagging or notes = restore the session as it was
+      const data = entry.data as { previousSession: Session };
+      await saveSessionToStorage(data.previousSession);
+      break;
+    }
+
+    case "ARCHIVE_SESSION": {
+      // Undo archive = restore the session as it was, following its window again
+      const data = entry.data as { previousSession: Session; windowId?: number };
+      await saveSessionToStorage(data.previousSession);
+      if (data.windowId !== undefined) {
+        await rebindWorkspace(data.windowId, data.previousSession.id);
+      }
+      break;
+    }
+
+    case "MOVE_TAB": {
+      // Undo move = restore the source (and target) session
+      const data = entry.data as { previousSessions: Session[] };
+      for (const session of data.previousSessions) {
+        await saveSessionToStorage(session);
+      }
+      break;
+    }
+
+    case "MERGE_SESSIONS": {
+      // Undo merge = restore every merged session as it was
+      const data = entry.data as { previousSessions: Session[] };
+      for (const session of data.previousSessions) {
+        await saveSessionToStorage(session);
+      }
+      break;
+    }
+
+    case "SPLIT_SESSION": {
+      // Undo split = remove the new session and put its groups back
+      const data = entry.data as { previousSession: Session; newSessionId: string };
+      await deleteSessionFromStorage(data.newSessionId);
+      await saveSessionToStorage(data.previousSession);
+      break;
+    }
+
+    case "STASH_TABS": {
+      // Undo stash = reopen the closed tabs where they were and remove the session
+      const data = entry.data as {
+        session: Session;
+        placeholderTabIds: number[];
+        windowIds?: number[];
+      };
+      await restoreSessionTabs(data.session.groups, {
+        mode: "currentWindow",
+        windowIds: data.windowIds,
+      });
+      await closePlaceholderTabs(data.placeholderTabIds);
+      await deleteSessionFromStorage(data.session.id);
+      break;
+    }
+
     default:
       console.warn("[TabFlow] Unknown undo type:", entry.type);
   }
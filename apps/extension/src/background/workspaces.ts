@@ -0,0 +1,252 @@
+/**
+ * TabFlow – Workspaces
+ *
+ * Binds sessions to windows so the session follows the window live:
+ * opening, closing, moving or navigating tabs updates the session.
+ *
+ * Design:
+ * - Bindings (windowId → sessionId) live in chrome.storage.session, so they
+ *   survive service worker restarts but not a browser restart, matching the
+ *   lifetime of Chrome window IDs
+ * - Tab events schedule a sync per window (debounced); the sync replaces the
+ *   session's groups with the window's current tabs, plus the saved tabs the
+ *   switch couldn't put in the window (held in the binding)
+ * - Switching replaces the current window's tabs with another session and
+ *   binds the window to it
+ */
+
+import type { Group, WorkspaceBinding } from "@shared/types";
+import { WORKSPACE_SYNC_DEBOUNCE_MS } from "@shared/constants";
+import { getSession, replaceSessionGroups } from "@storage/sessions";
+import { StorageError } from "@storage/db";
+import {
+  getWindowGroups,
+  getCurrentWindowId,
+  focusWindow,
+  isRecapturedTab,
+  restoreSessionTabs,
+  windowExists,
+  type CapturedGroup,
+} from "./tabCapture";
+import { getSettings, getCaptureOptions } from "./settings";
+
+const BINDINGS_KEY = "workspaces";
+
+// =============================================================================
+// Bindings (chrome.storage.session)
+// =============================================================================
+
+/**
+ * Get all window bindings.
+ */
+export async function getWorkspaceBindings(): Promise<WorkspaceBinding[]> {
+  const result = await chrome.storage.session.get(BINDINGS_KEY);
+  return (result[BINDINGS_KEY] as WorkspaceBinding[] | undefined) ?? [];
+}
+
+async function setWorkspaceBindings(bindings: WorkspaceBinding[]): Promise<void> {
+  await chrome.storage.session.set({ [BINDINGS_KEY]: bindings });
+}
+
+/**
+ * Bind a window to a session, replacing any binding either of them had.
+ *
+ * @param heldGroups - Saved tabs the window doesn't show, kept in the session on sync
+ */
+export async function bindWorkspace(
+  windowId: number,
+  sessionId: string,
+  heldGroups: Group[] = []
+): Promise<void> {
+  const bindings = await getWorkspaceBindings();
+  await setWorkspaceBindings([
+    ...bindings.filter((b) => b.windowId !== windowId && b.sessionId !== sessionId),
+    heldGroups.length > 0 ? { windowId, sessionId, heldGroups } : { windowId, sessionId },
+  ]);
+  console.log("[TabFlow] Workspace bound:", windowId, "→", sessionId);
+}
+
+/**
+ * Stop syncing a window. Pending syncs for it are dropped.
+ */
+export async function unbindWindow(windowId: number): Promise<void> {
+  cancelSync(windowId);
+  const bindings = await getWorkspaceBindings();
+  const remaining = bindings.filter((b) => b.windowId !== windowId);
+  if (remaining.length !== bindings.length) {
+    await setWorkspaceBindings(remaining);
+    console.log("[TabFlow] Workspace unbound:", windowId);
+  }
+}
+
+/**
+ * Stop syncing whichever window is bound to a session (e.g. it was deleted).
+ *
+ * @returns Promise resolving to the window that was bound, if any
+ */
+export async function unbindSession(sessionId: string): Promise<number | undefined> {
+  const binding = (await getWorkspaceBindings()).find((b) => b.sessionId === sessionId);
+  if (binding) {
+    await unbindWindow(binding.windowId);
+  }
+  return binding?.windowId;
+}
+
+/**
+ * Bind a window to a session again after an undo brought the session back.
+ * Skipped if the window was closed or has become another session's workspace.
+ */
+export async function rebindWorkspace(windowId: number, sessionId: string): Promise<void> {
+  const bindings = await getWorkspaceBindings();
+  if (bindings.some((b) => b.windowId === windowId)) return;
+  if (!(await windowExists(windowId))) return;
+
+  await bindWorkspace(windowId, sessionId);
+}
+
+// =============================================================================
+// Live Sync
+// =============================================================================
+
+/**
+ * Debounce timers for pending syncs, keyed by window ID.
+ */
+const syncTimeouts = new Map<number, ReturnType<typeof setTimeout>>();
+
+function cancelSync(windowId: number): void {
+  const timeout = syncTimeouts.get(windowId);
+  if (timeout) {
+    clearTimeout(timeout);
+    syncTimeouts.delete(windowId);
+  }
+}
+
+/**
+ * Add held tabs back to the captured groups, into the group of the same name
+ * or as a group of their own.
+ */
+function mergeHeldGroups(groups: CapturedGroup[], heldGroups: Group[]): CapturedGroup[] {
+  const merged = groups.map((group) => ({ ...group, tabs: [...group.tabs] }));
+  for (const held of heldGroups) {
+    const target = merged.find((group) => group.name === held.name);
+    if (target) {
+      target.tabs.push(...held.tabs);
+    } else {
+      merged.push(held);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Write a bound window's tabs into its session.
+ * Unbinds the window if its session no longer exists.
+ */
+async function syncWorkspace(windowId: number): Promise<void> {
+  const binding = (await getWorkspaceBindings()).find((b) => b.windowId === windowId);
+  if (!binding) return;
+
+  const captured = await getWindowGroups(windowId, getCaptureOptions(await getSettings()));
+  // A window emptied while closing keeps its last saved state
+  if (captured.length === 0) return;
+  const groups = mergeHeldGroups(captured, binding.heldGroups ?? []);
+
+  try {
+    await replaceSessionGroups(binding.sessionId, groups);
+  } catch (error) {
+    if (error instanceof StorageError && error.code === "NOT_FOUND") {
+      await unbindWindow(windowId);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Schedule a sync of a window into its bound session (debounced).
+ * Called from the tab event listeners for every window; unbound windows
+ * are ignored when the sync runs.
+ */
+export function scheduleWorkspaceSync(windowId: number): void {
+  cancelSync(windowId);
+
+  syncTimeouts.set(
+    windowId,
+    setTimeout(async () => {
+      syncTimeouts.delete(windowId);
+      try {
+        await syncWorkspace(windowId);
+      } catch (error) {
+        console.error("[TabFlow] Failed to sync workspace:", error);
+      }
+    }, WORKSPACE_SYNC_DEBOUNCE_MS)
+  );
+}
+
+// =============================================================================
+// Switching
+// =============================================================================
+
+/**
+ * Result of switching workspaces.
+ */
+export interface SwitchWorkspaceResult {
+  tabsOpened: number;
+  /** True if the session was already open in a window, which was focused */
+  focused: boolean;
+}
+
+/**
+ * Turn the current window into the workspace for a session.
+ *
+ * If the session is already bound to another window, that window is focused
+ * instead. Otherwise the current window's workspace (if any) is synced one
+ * last time and unbound, its tabs are replaced by the session's tabs, and the
+ * window is bound to the session.
+ *
+ * @param sessionId - Session to switch to
+ * @throws Error if the session does not exist
+ */
+export async function switchWorkspace(sessionId: string): Promise<SwitchWorkspaceResult> {
+  const session = await getSession(sessionId);
+  if (!session) {
+    throw new Error("Session not found");
+  }
+
+  const windowId = await getCurrentWindowId();
+  const bindings = await getWorkspaceBindings();
+
+  // Already open: this window, or another one that can be brought forward
+  const existing = bindings.find((b) => b.sessionId === sessionId);
+  if (existing && (existing.windowId === windowId || (await focusWindow(existing.windowId)))) {
+    return { tabsOpened: 0, focused: true };
+  }
+
+  // Save the outgoing workspace before its tabs are closed
+  if (bindings.some((b) => b.windowId === windowId)) {
+    cancelSync(windowId);
+    await syncWorkspace(windowId);
+    await unbindWindow(windowId);
+  }
+
+  // A workspace is a single window, so open every group here
+  const settings = await getSettings();
+  const groups = session.groups.map((group) => ({ ...group, windowIndex: undefined }));
+  const tabsOpened = await restoreSessionTabs(groups, {
+    mode: "replaceWindow",
+    lazy: settings.lazyRestore,
+    concurrency: settings.restoreConcurrency,
+  });
+
+  // Tabs a sync would never capture stay in the session through the binding
+  const captureOptions = getCaptureOptions(settings);
+  const heldGroups = groups
+    .map((group) => ({
+      ...group,
+      tabs: group.tabs.filter((tab) => !isRecapturedTab(tab, captureOptions)),
+    }))
+    .filter((group) => group.tabs.length > 0);
+
+  await bindWorkspace(windowId, sessionId, heldGroups);
+  return { tabsOpened, focused: false };
+}
@@ -7,10 +7,11 @@
 
 import React, { useState, useCallback, useRef } from "react";
 import { MessageAction } from "@shared/messages";
-import type { Session } from "@shared/types";
+import type { RestoreMode, Session, Settings, UrlRule } from "@shared/types";
 import { sendMessage } from "./hooks/useMessage";
 import { useSettings } from "./hooks/useSettings";
-import { Toggle, Toast, ConfirmDialog } from "./components";
+import { useHiddenSessions } from "./hooks/useHiddenSessions";
+import { Toggle, Toast, ConfirmDialog, HiddenSessionList, UrlRulesEditor } from "./components";
 import {
   Button,
   AlertDialog,
@@ -42,6 +43,13 @@ const App: React.FC = () => {
   // Settings from hook
   const { settings, tier, loading, updateSettings } = useSettings();
 
+  // Archive and Trash
+  const { archived, trashed, refetch: refetchHidden } = useHiddenSessions();
+  const [hiddenBusyId, setHiddenBusyId] = useState<string | null>(null);
+  const [purgeSession, setPurgeSession] = useState<Session | null>(null);
+  const [showEmptyTrashConfirm, setShowEmptyTrashConfirm] = useState(false);
+  const [emptyingTrash, setEmptyingTrash] = useState(false);
+
   // UI state
   const [exporting, setExporting] = useState(false);
   const [importing, setImporting] = useState(false);
@@ -107,6 +115,197 @@ const App: React.FC = () => {
     [updateSettings]
   );
 
+  // Handle auto-save changes (toggle, interval, how many to keep)
+  const handleAutoSaveChange = useCallback(
+    async (updates: Partial<Settings>, message: string) => {
+      try {
+        await updateSettings(updates);
+        setToast({ message, type: "success" });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Handle restore mode change
+  const handleRestoreModeChange = useCallback(
+    async (e: React.ChangeEvent<HTMLSelectElement>) => {
+      try {
+        await updateSettings({ restoreMode: e.target.value as RestoreMode });
+        setToast({ message: "Restore preference updated", type: "success" });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Handle lazy restore toggle
+  const handleLazyRestoreToggle = useCallback(
+    async (enabled: boolean) => {
+      try {
+        await updateSettings({ lazyRestore: enabled });
+        setToast({
+          message: enabled ? "Tabs will load when opened" : "Tabs will load right away",
+          type: "success",
+        });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Handle URL cleanup changes (tracking params, fragments, trailing slashes)
+  const handleUrlCleanupChange = useCallback(
+    async (updates: Partial<Settings>) => {
+      try {
+        await updateSettings(updates);
+        setToast({ message: "URL cleanup updated", type: "success" });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Handle tracking parameter list edits (comma separated, saved on blur)
+  const handleTrackingParamsBlur = useCallback(
+    (e: React.FocusEvent<HTMLInputElement>) => {
+      const trackingParams = e.target.value
+        .split(",")
+        .map((param) => param.trim())
+        .filter(Boolean);
+      if (trackingParams.join(",") !== settings.trackingParams.join(",")) {
+        handleUrlCleanupChange({ trackingParams });
+      }
+    },
+    [settings.trackingParams, handleUrlCleanupChange]
+  );
+
+  // Handle URL rule changes
+  const handleUrlRulesChange = useCallback(
+    async (urlRules: UrlRule[]) => {
+      try {
+        await updateSettings({ urlRules });
+        setToast({ message: "Capture rules updated", type: "success" });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Handle restore concurrency change
+  const handleRestoreConcurrencyChange = useCallback(
+    async (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const concurrency = parseInt(e.target.value, 10);
+      try {
+        await updateSettings({ restoreConcurrency: concurrency });
+        setToast({ message: "Restore speed updated", type: "success" });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Handle trash retention change
+  const handleTrashRetentionChange = useCallback(
+    async (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const days = parseInt(e.target.value, 10);
+      try {
+        await updateSettings({ trashRetentionDays: days });
+        setToast({ message: "Trash retention updated", type: "success" });
+      } catch {
+        setToast({ message: "Failed to update settings", type: "error" });
+      }
+    },
+    [updateSettings]
+  );
+
+  // Run an archive/trash action on one session, then refresh both lists
+  const runHiddenAction = useCallback(
+    async (sessionId: string, action: () => Promise<unknown>, message: string) => {
+      setHiddenBusyId(sessionId);
+      try {
+        await action();
+        await refetchHidden();
+        setToast({ message, type: "success" });
+      } catch (err) {
+        setToast({
+          message: err instanceof Error ? err.message : "Something went wrong",
+          type: "error",
+        });
+      } finally {
+        setHiddenBusyId(null);
+      }
+    },
+    [refetchHidden]
+  );
+
+  const handleUnarchive = useCallback(
+    (session: Session) =>
+      runHiddenAction(
+        session.id,
+        () => sendMessage(MessageAction.UNARCHIVE_SESSION, { sessionId: session.id }),
+        `"${session.name}" is back in your sessions`
+      ),
+    [runHiddenAction]
+  );
+
+  const handleTrashArchived = useCallback(
+    (session: Session) =>
+      runHiddenAction(
+        session.id,
+        () => sendMessage(MessageAction.DELETE_SESSION, { sessionId: session.id }),
+        `"${session.name}" moved to the trash`
+      ),
+    [runHiddenAction]
+  );
+
+  const handleRestoreFromTrash = useCallback(
+    (session: Session) =>
+      runHiddenAction(
+        session.id,
+        () => sendMessage(MessageAction.RESTORE_FROM_TRASH, { sessionId: session.id }),
+        `"${session.name}" is back in your sessions`
+      ),
+    [runHiddenAction]
+  );
+
+  const handlePurgeConfirm = useCallback(async () => {
+    if (!purgeSession) return;
+
+    await runHiddenAction(
+      purgeSession.id,
+      () => sendMessage(MessageAction.PURGE_SESSION, { sessionId: purgeSession.id }),
+      `"${purgeSession.name}" deleted forever`
+    );
+    setPurgeSession(null);
+  }, [purgeSession, runHiddenAction]);
+
+  const handleEmptyTrashConfirm = useCallback(async () => {
+    setEmptyingTrash(true);
+    try {
+      const result = await sendMessage(MessageAction.EMPTY_TRASH);
+      await refetchHidden();
+      setShowEmptyTrashConfirm(false);
+      setToast({
+        message: `Deleted ${result.purgedCount} session${result.purgedCount !== 1 ? "s" : ""} forever`,
+        type: "success",
+      });
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : "Failed to empty trash",
+        type: "error",
+      });
+    } finally {
+      setEmptyingTrash(false);
+    }
+  }, [refetchHidden]);
+
   // Handle export
   const handleExport = useCallback(async () => {
     setExporting(true);
@@ -141,42 +340,46 @@ const App: React.FC = () => {
   }, []);
 
   // Handle file selection
-  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
 
-    // Reset input for re-selection
-    e.target.value = "";
+      // Reset input for re-selection
+      e.target.value = "";
 
-    // Validate file type
-    if (!file.name.endsWith(".json")) {
-      setToast({ message: "Please select a JSON file", type: "error" });
-      return;
-    }
+      // Validate file type
+      if (!file.name.endsWith(".json")) {
+        setToast({ message: "Please select a JSON file", type: "error" });
+        return;
+      }
 
-    setImporting(true);
-    try {
-      // Read file content
-      const json = await file.text();
+      setImporting(true);
+      try {
+        // Read file content
+        const json = await file.text();
 
-      // Send to background for import
-      const result = await sendMessage(MessageAction.IMPORT_DATA, { json });
+        // Send to background for import
+        const result = await sendMessage(MessageAction.IMPORT_DATA, { json });
+        await refetchHidden();
 
-      setToast({
-        message: `Imported ${result.sessionsImported} session${
-          result.sessionsImported !== 1 ? "s" : ""
-        }`,
-        type: "success",
-      });
-    } catch (err) {
-      setToast({
-        message: err instanceof Error ? err.message : "Import failed",
-        type: "error",
-      });
-    } finally {
-      setImporting(false);
-    }
-  }, []);
+        setToast({
+          message: `Imported ${result.sessionsImported} session${
+            result.sessionsImported !== 1 ? "s" : ""
+          }`,
+          type: "success",
+        });
+      } catch (err) {
+        setToast({
+          message: err instanceof Error ? err.message : "Import failed",
+          type: "error",
+        });
+      } finally {
+        setImporting(false);
+      }
+    },
+    [refetchHidden]
+  );
 
   // Handle clear data
   const handleClearClick = useCallback(() => {
@@ -187,6 +390,7 @@ const App: React.FC = () => {
     setClearing(true);
     try {
       await sendMessage(MessageAction.CLEAR_DATA);
+      await refetchHidden();
       setShowClearConfirm(false);
       setToast({
         message: "All data cleared. You can undo this in the popup.",
@@ -200,7 +404,7 @@ const App: React.FC = () => {
     } finally {
       setClearing(false);
     }
-  }, []);
+  }, [refetchHidden]);
 
   // Helper to get total tab count from sessions
   const getTotalTabs = (sessions: SessionSummary[]): number => {
@@ -342,6 +546,7 @@ const App: React.FC = () => {
         sessionsJson: restorePreview.sessionsJson,
       });
 
+      await refetchHidden();
       setLastSyncedAt(restorePreview.lastSyncedAt);
       setCloudSyncStatus("success");
       setToast({
@@ -367,7 +572,7 @@ const App: React.FC = () => {
       setLocalSessions([]);
       setShowRestoreConfirm(false);
     }
-  }, [restorePreview]);
+  }, [restorePreview, refetchHidden]);
 
   // Cancel restore - clear preview data
   const handleRestoreCancel = useCallback(() => {
@@ -620,6 +825,302 @@ const App: React.FC = () => {
               </div>
             </section>
 
+            {/* Auto-save */}
+            <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
+              <h2 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-200">
+                Auto-save
+              </h2>
+
+              {/* Auto-save Toggle */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Auto-save open tabs</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Keep an &quot;Autosave&quot; session of all windows in case Chrome closes
+                  </p>
+                </div>
+                <Toggle
+                  enabled={settings.autoSave}
+                  onChange={(enabled) =>
+                    handleAutoSaveChange(
+                      { autoSave: enabled },
+                      enabled ? "Auto-save enabled" : "Auto-save disabled"
+                    )
+                  }
+                  label="Toggle auto-save"
+                />
+              </div>
+
+              {/* Auto-save Interval */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <p className="text-sm text-gray-700 dark:text-gray-200">Frequency</p>
+                <select
+                  value={settings.autoSaveIntervalMinutes}
+                  onChange={(e) =>
+                    handleAutoSaveChange(
+                      { autoSaveIntervalMinutes: parseInt(e.target.value, 10) },
+                      "Auto-save frequency updated"
+                    )
+                  }
+                  disabled={!settings.autoSave}
+                  className="dark:border-surface-600 rounded border border-gray-200 bg-white px-2 py-1 text-sm text-gray-600 transition-colors focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 disabled:bg-gray-50 disabled:opacity-40 dark:bg-surface-800 dark:text-gray-300 dark:focus:border-primary-500 dark:focus:ring-primary-900 dark:disabled:bg-surface-700"
+                >
+                  <option value={5}>Every 5 minutes</option>
+                  <option value={15}>Every 15 minutes</option>
+                  <option value={30}>Every 30 minutes</option>
+                  <option value={60}>Every hour</option>
+                </select>
+              </div>
+
+              {/* Autosaves Kept */}
+              <div className="flex items-center justify-between py-2.5">
+                <p className="text-sm text-gray-700 dark:text-gray-200">Keep</p>
+                <select
+                  value={settings.autoSaveKeepCount}
+                  onChange={(e) =>
+                    handleAutoSaveChange(
+                      { autoSaveKeepCount: parseInt(e.target.value, 10) },
+                      "Auto-save history updated"
+                    )
+                  }
+                  disabled={!settings.autoSave}
+                  className="dark:border-surface-600 rounded border border-gray-200 bg-white px-2 py-1 text-sm text-gray-600 transition-colors focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 disabled:bg-gray-50 disabled:opacity-40 dark:bg-surface-800 dark:text-gray-300 dark:focus:border-primary-500 dark:focus:ring-primary-900 dark:disabled:bg-surface-700"
+                >
+                  <option value={1}>Latest only</option>
+                  <option value={3}>Last 3</option>
+                  <option value={5}>Last 5</option>
+                  <option value={10}>Last 10</option>
+                </select>
+              </div>
+            </section>
+
+            {/* Restoring */}
+            <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
+              <h2 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-200">
+                Restoring
+              </h2>
+
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Open sessions in</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Tab groups are recreated with their names and colors
+                  </p>
+                </div>
+                <select
+                  value={settings.restoreMode}
+                  onChange={handleRestoreModeChange}
+                  className="dark:border-surface-600 rounded border border-gray-200 bg-white px-2 py-1 text-sm text-gray-600 transition-colors focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 dark:bg-surface-800 dark:text-gray-300 dark:focus:border-primary-500 dark:focus:ring-primary-900"
+                >
+                  <option value="currentWindow">Current window</option>
+                  <option value="newWindow">New window</option>
+                  <option value="replaceWindow">Replace current window</option>
+                </select>
+              </div>
+
+              {/* Lazy Restore Toggle */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Load tabs on demand</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Restored tabs stay asleep until you open them
+                  </p>
+                </div>
+                <Toggle
+                  enabled={settings.lazyRestore}
+                  onChange={handleLazyRestoreToggle}
+                  label="Toggle lazy restore"
+                />
+              </div>
+
+              {/* Restore Concurrency */}
+              <div className="flex items-center justify-between py-2.5">
+                <p className="text-sm text-gray-700 dark:text-gray-200">Tabs loading at once</p>
+                <select
+                  value={settings.restoreConcurrency}
+                  onChange={handleRestoreConcurrencyChange}
+                  className="dark:border-surface-600 rounded border border-gray-200 bg-white px-2 py-1 text-sm text-gray-600 transition-colors focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 dark:bg-surface-800 dark:text-gray-300 dark:focus:border-primary-500 dark:focus:ring-primary-900"
+                >
+                  <option value={5}>5</option>
+                  <option value={10}>10</option>
+                  <option value={20}>20</option>
+                  <option value={0}>No limit</option>
+                </select>
+              </div>
+            </section>
+
+            {/* Capture Rules */}
+            <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
+              <h2 className="text-sm font-medium text-gray-700 dark:text-gray-200">
+                Capture Rules
+              </h2>
+              <p className="mb-1 mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                Skip tabs you never want saved. Wildcards without a &quot;/&quot; match the site,
+                otherwise the address.
+              </p>
+              <UrlRulesEditor rules={settings.urlRules} onChange={handleUrlRulesChange} />
+            </section>
+
+            {/* URL Cleanup */}
+            <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
+              <h2 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-200">
+                URL Cleanup
+              </h2>
+
+              {/* Strip Tracking Parameters */}
+              <div className="border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-700 dark:text-gray-200">
+                      Remove tracking parameters
+                    </p>
+                    <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                      Use * at the end to match a prefix
+                    </p>
+                  </div>
+                  <Toggle
+                    enabled={settings.stripTrackingParams}
+                    onChange={(enabled) => handleUrlCleanupChange({ stripTrackingParams: enabled })}
+                    label="Toggle tracking parameter removal"
+                  />
+                </div>
+                <input
+                  key={settings.trackingParams.join(",")}
+                  type="text"
+                  defaultValue={settings.trackingParams.join(", ")}
+                  onBlur={handleTrackingParamsBlur}
+                  disabled={!settings.stripTrackingParams}
+                  aria-label="Tracking parameters"
+                  className="dark:border-surface-600 mt-2 w-full rounded border border-gray-200 bg-white px-2 py-1 font-mono text-xs text-gray-600 transition-colors focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 disabled:bg-gray-50 disabled:opacity-40 dark:bg-surface-800 dark:text-gray-300 dark:focus:border-primary-500 dark:focus:ring-primary-900 dark:disabled:bg-surface-700"
+                />
+              </div>
+
+              {/* Remove Fragments */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Remove #fragments</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Pages reopen at the top instead of a section
+                  </p>
+                </div>
+                <Toggle
+                  enabled={settings.removeUrlFragments}
+                  onChange={(enabled) => handleUrlCleanupChange({ removeUrlFragments: enabled })}
+                  label="Toggle fragment removal"
+                />
+              </div>
+
+              {/* Trailing Slashes */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <p className="text-sm text-gray-700 dark:text-gray-200">Remove trailing slashes</p>
+                <Toggle
+                  enabled={settings.trimTrailingSlashes}
+                  onChange={(enabled) => handleUrlCleanupChange({ trimTrailingSlashes: enabled })}
+                  label="Toggle trailing slash removal"
+                />
+              </div>
+
+              {/* Keep Original URL */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Keep original URLs</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Store the address as it was before cleanup
+                  </p>
+                </div>
+                <Toggle
+                  enabled={settings.keepOriginalUrls}
+                  onChange={(enabled) => handleUrlCleanupChange({ keepOriginalUrls: enabled })}
+                  label="Toggle keeping original URLs"
+                />
+              </div>
+
+              {/* Dedupe On Save */}
+              <div className="flex items-center justify-between py-2.5">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Skip duplicate tabs</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Save each page once, even if it is open several times
+                  </p>
+                </div>
+                <Toggle
+                  enabled={settings.dedupeOnSave}
+                  onChange={(enabled) => handleUrlCleanupChange({ dedupeOnSave: enabled })}
+                  label="Toggle skipping duplicate tabs"
+                />
+              </div>
+            </section>
+
+            {/* Archive */}
+            <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
+              <h2 className="text-sm font-medium text-gray-700 dark:text-gray-200">Archive</h2>
+              <p className="mb-1 mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                Sessions kept out of the popup until you need them again
+              </p>
+              <HiddenSessionList
+                sessions={archived}
+                getHiddenAt={(session) => session.archivedAt}
+                hiddenLabel="Archived"
+                emptyMessage="No archived sessions"
+                actions={[
+                  { label: "Unarchive", onClick: handleUnarchive },
+                  { label: "Move to trash", onClick: handleTrashArchived, destructive: true },
+                ]}
+                busyId={hiddenBusyId}
+              />
+            </section>
+
+            {/* Trash */}
+            <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium text-gray-700 dark:text-gray-200">Trash</h2>
+                {trashed.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowEmptyTrashConfirm(true)}
+                    disabled={emptyingTrash}
+                    className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                  >
+                    Empty trash
+                  </Button>
+                )}
+              </div>
+
+              {/* Trash Retention */}
+              <div className="flex items-center justify-between border-b border-gray-50 py-2.5 dark:border-surface-700">
+                <div>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">Keep deleted sessions</p>
+                  <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    Then they are deleted forever
+                  </p>
+                </div>
+                <select
+                  value={settings.trashRetentionDays}
+                  onChange={handleTrashRetentionChange}
+                  className="rounded border border-gray-200 bg-white px-2 py-1 text-sm text-gray-600 transition-colors focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 dark:border-surface-700 dark:bg-surface-800 dark:text-gray-300 dark:focus:border-primary-500 dark:focus:ring-primary-900"
+                >
+                  <option value={7}>7 days</option>
+                  <option value={14}>14 days</option>
+                  <option value={30}>30 days</option>
+                  <option value={90}>90 days</option>
+                  <option value={0}>Until I empty the trash</option>
+                </select>
+              </div>
+
+              <HiddenSessionList
+                sessions={trashed}
+                getHiddenAt={(session) => session.trashedAt}
+                hiddenLabel="Deleted"
+                emptyMessage="The trash is empty"
+                actions={[
+                  { label: "Restore", onClick: handleRestoreFromTrash },
+                  { label: "Delete forever", onClick: setPurgeSession, destructive: true },
+                ]}
+                busyId={hiddenBusyId}
+              />
+            </section>
+
             {/* Data Management */}
             <section className="rounded-lg border border-gray-100 bg-white p-4 dark:border-surface-800 dark:bg-surface-850">
               <h2 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-200">Data</h2>
@@ -985,6 +1486,32 @@ const App: React.FC = () => {
         loading={clearing}
       />
 
+      {/* Delete Forever Confirmation */}
+      <ConfirmDialog
+        isOpen={!!purgeSession}
+        title="Delete Forever?"
+        message={`"${purgeSession?.name || "Session"}" will be permanently deleted. This can't be undone.`}
+        confirmLabel="Delete forever"
+        cancelLabel="Cancel"
+        variant="danger"
+        onConfirm={handlePurgeConfirm}
+        onCancel={() => setPurgeSession(null)}
+        loading={!!purgeSession && hiddenBusyId === purgeSession.id}
+      />
+
+      {/* Empty Trash Confirmation */}
+      <ConfirmDialog
+        isOpen={showEmptyTrashConfirm}
+        title="Empty Trash?"
+        message={`${trashed.length} session${trashed.length !== 1 ? "s" : ""} will be permanently deleted. This can't be undone.`}
+        confirmLabel="Empty trash"
+        cancelLabel="Cancel"
+        variant="danger"
+        onConfirm={handleEmptyTrashConfirm}
+        onCancel={() => setShowEmptyTrashConfirm(false)}
+        loading={emptyingTrash}
+      />
+
       {/* Toast */}
       {toast && (
         <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
@@ -0,0 +1,93 @@
+/**
+ * TabFlow – Hidden Session List
+ *
+ * Archived or trashed sessions, each with a way back to the popup.
+ * Quiet rows: the name, how big it is and when it was put away.
+ */
+
+import React from "react";
+import type { Session } from "@shared/types";
+import { Button } from "@shared/components/ui";
+
+export interface HiddenSessionAction {
+  label: string;
+  onClick: (session: Session) => void;
+  /** Styled as a destructive action */
+  destructive?: boolean;
+}
+
+interface HiddenSessionListProps {
+  sessions: Session[];
+  /** When the session was archived or trashed */
+  getHiddenAt: (session: Session) => number | undefined;
+  /** e.g. "Archived", shown before the date */
+  hiddenLabel: string;
+  emptyMessage: string;
+  actions: HiddenSessionAction[];
+  /** Session with an action in progress */
+  busyId: string | null;
+}
+
+function countTabs(session: Session): number {
+  return session.groups.reduce((sum, group) => sum + group.tabs.length, 0);
+}
+
+export const HiddenSessionList: React.FC<HiddenSessionListProps> = ({
+  sessions,
+  getHiddenAt,
+  hiddenLabel,
+  emptyMessage,
+  actions,
+  busyId,
+}) => {
+  if (sessions.length === 0) {
+    return <p className="py-2.5 text-xs text-gray-400 dark:text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="max-h-64 overflow-y-auto">
+      {sessions.map((session) => {
+        const tabCount = countTabs(session);
+        const hiddenAt = getHiddenAt(session);
+
+        return (
+          <li
+            key={session.id}
+            className="flex items-center justify-between gap-3 border-b border-gray-50 py-2 last:border-b-0 dark:border-surface-700"
+          >
+            <div className="min-w-0">
+              <p className="truncate text-sm text-gray-700 dark:text-gray-200" title={session.name}>
+                {session.name}
+              </p>
+              <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                {tabCount} tab{tabCount !== 1 ? "s" : ""}
+                {hiddenAt !== undefined &&
+                  ` · ${hiddenLabel} ${new Date(hiddenAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`}
+              </p>
+            </div>
+            <div className="flex flex-shrink-0 gap-1">
+              {actions.map((action) => (
+                <Button
+                  key={action.label}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => action.onClick(session)}
+                  disabled={busyId === session.id}
+                  className={
+                    action.destructive
+                      ? "text-destructive hover:bg-destructive/10 hover:text-destructive"
+                      : undefined
+                  }
+                >
+                  {action.label}
+                </Button>
+              ))}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default HiddenSessionList;
@@ -0,0 +1,159 @@
+/**
+ * TabFlow – URL Rules Editor
+ *
+ * Lets users add, toggle and remove include/exclude rules for capture,
+ * and check how a sample URL would be treated.
+ */
+
+import React, { useState } from "react";
+import type { UrlRule, UrlRuleAction, UrlRuleSyntax } from "@shared/types";
+import { evaluateUrlRules, getUrlRuleError } from "@shared/urlRules";
+import { Button } from "@shared/components/ui";
+import { Toggle } from "./Toggle";
+
+interface UrlRulesEditorProps {
+  rules: UrlRule[];
+  onChange: (rules: UrlRule[]) => Promise<void>;
+}
+
+const inputClass =
+  "dark:border-surface-600 min-w-0 rounded border border-gray-200 bg-white px-2 py-1 text-sm text-gray-600 transition-colors placeholder:text-gray-300 focus:border-primary-400 focus:outline-none focus:ring-1 focus:ring-primary-100 dark:bg-surface-800 dark:text-gray-300 dark:placeholder:text-gray-600 dark:focus:border-primary-500 dark:focus:ring-primary-900";
+
+export const UrlRulesEditor: React.FC<UrlRulesEditorProps> = ({ rules, onChange }) => {
+  const [pattern, setPattern] = useState("");
+  const [syntax, setSyntax] = useState<UrlRuleSyntax>("glob");
+  const [action, setAction] = useState<UrlRuleAction>("exclude");
+  const [sampleUrl, setSampleUrl] = useState("");
+
+  const draft: UrlRule = { id: "", pattern: pattern.trim(), syntax, action, enabled: true };
+  const draftError = pattern.trim() ? getUrlRuleError(draft) : null;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.pattern || draftError) return;
+
+    await onChange([...rules, { ...draft, id: crypto.randomUUID() }]);
+    setPattern("");
+  };
+
+  const handleToggle = (id: string, enabled: boolean) =>
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, enabled } : rule)));
+
+  const handleRemove = (id: string) => onChange(rules.filter((rule) => rule.id !== id));
+
+  const getSampleResult = (): string => {
+    const url = sampleUrl.trim();
+    const { allowed, rule } = evaluateUrlRules(url, rules);
+
+    if (allowed) {
+      return rule ? `Saved – included by "${rule.pattern}"` : "Saved – no rule applies";
+    }
+    return rule ? `Skipped – excluded by "${rule.pattern}"` : "Skipped – no include rule matches";
+  };
+
+  return (
+    <div>
+      {/* Existing rules */}
+      {rules.length === 0 ? (
+        <p className="py-2.5 text-xs text-gray-400 dark:text-gray-500">
+          No rules yet. All tabs are saved.
+        </p>
+      ) : (
+        <ul>
+          {rules.map((rule) => {
+            const error = getUrlRuleError(rule);
+            return (
+              <li
+                key={rule.id}
+                className="flex items-center justify-between gap-3 border-b border-gray-50 py-2.5 dark:border-surface-700"
+              >
+                <div className="min-w-0">
+                  <p
+                    className="truncate font-mono text-sm text-gray-700 dark:text-gray-200"
+                    title={rule.pattern}
+                  >
+                    {rule.pattern}
+                  </p>
+                  <p
+                    className={`mt-0.5 text-xs ${error ? "text-rose-500" : "text-gray-400 dark:text-gray-500"}`}
+                  >
+                    {error ??
+                      `${rule.action === "exclude" ? "Exclude" : "Include"} · ${rule.syntax === "regex" ? "Regex" : "Wildcard"}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Toggle
+                    enabled={rule.enabled}
+                    onChange={(enabled) => handleToggle(rule.id, enabled)}
+                    label={`Toggle rule ${rule.pattern}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(rule.id)}
+                    aria-label={`Remove rule ${rule.pattern}`}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Add rule */}
+      <form onSubmit={handleAdd} className="border-b border-gray-50 py-2.5 dark:border-surface-700">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="e.g. localhost or *.example.com/login*"
+            aria-label="Rule pattern"
+            className={`${inputClass} flex-1 font-mono`}
+          />
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as UrlRuleAction)}
+            aria-label="Rule action"
+            className={inputClass}
+          >
+            <option value="exclude">Exclude</option>
+            <option value="include">Include</option>
+          </select>
+          <select
+            value={syntax}
+            onChange={(e) => setSyntax(e.target.value as UrlRuleSyntax)}
+            aria-label="Rule syntax"
+            className={inputClass}
+          >
+            <option value="glob">Wildcard</option>
+            <option value="regex">Regex</option>
+          </select>
+          <Button type="submit" size="sm" disabled={!draft.pattern || !!draftError}>
+            Add
+          </Button>
+        </div>
+        {draftError && <p className="mt-1.5 text-xs text-rose-500">{draftError}</p>}
+      </form>
+
+      {/* Rule tester */}
+      <div className="pt-2.5">
+        <input
+          type="url"
+          value={sampleUrl}
+          onChange={(e) => setSampleUrl(e.target.value)}
+          placeholder="Test a URL, e.g. http://localhost:3000/"
+          aria-label="Sample URL"
+          className={`${inputClass} w-full`}
+        />
+        {sampleUrl.trim() && (
+          <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">{getSampleResult()}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UrlRulesEditor;
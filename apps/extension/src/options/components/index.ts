@@ -3,5 +3,7 @@
  */
 
 export { ConfirmDialog } from "./ConfirmDialog";
+export { HiddenSessionList } from "./HiddenSessionList";
 export { Toast } from "./Toast";
 export { Toggle } from "./Toggle";
+export { UrlRulesEditor } from "./UrlRulesEditor";
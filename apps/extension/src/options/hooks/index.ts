@@ -4,3 +4,4 @@
 
 export { sendMessage } from "./useMessage";
 export { useSettings } from "./useSettings";
+export { useHiddenSessions } from "./useHiddenSessions";
@@ -0,0 +1,61 @@
+/**
+ * TabFlow – Hidden Sessions Hook
+ *
+ * Fetches archived and trashed sessions for the options page.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { Session } from "@shared/types";
+import { MessageAction } from "@shared/messages";
+import { sendMessage } from "./useMessage";
+
+interface UseHiddenSessionsResult {
+  archived: Session[];
+  trashed: Session[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch the Archive and the Trash.
+ * Fetches both on mount and provides refetch capability.
+ */
+export function useHiddenSessions(): UseHiddenSessionsResult {
+  const [archived, setArchived] = useState<Session[]>([]);
+  const [trashed, setTrashed] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setError(null);
+
+    try {
+      const [archivedData, trashedData] = await Promise.all([
+        sendMessage(MessageAction.GET_ARCHIVED_SESSIONS),
+        sendMessage(MessageAction.GET_TRASHED_SESSIONS),
+      ]);
+      setArchived(archivedData);
+      setTrashed(trashedData);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to fetch sessions";
+      setError(message);
+      console.error("[TabFlow] Failed to fetch archived sessions:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fetch on mount
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return {
+    archived,
+    trashed,
+    loading,
+    error,
+    refetch: fetchData,
+  };
+}
@@ -5,21 +5,70 @@
  * All Chrome API calls go through the background service worker.
  */
 
-import React, { useState, useCallback } from "react";
-import type { Session } from "@shared/types";
-import { MessageAction } from "@shared/messages";
+import React, { useState, useCallback, useMemo } from "react";
+import type {
+  Session,
+  BrowsingSnapshot,
+  SessionSortOrder,
+  Settings,
+  TabLocation,
+  Tag,
+  TagUsage,
+  UndoEntryType,
+} from "@shared/types";
+import {
+  MessageAction,
+  type SaveSessionPayload,
+  type AddToSessionPayload,
+  type WorkspacesResponse,
+} from "@shared/messages";
 import { sendMessage } from "./hooks/useMessage";
 import { useSessions } from "./hooks/useSessions";
 import {
   ActionBar,
   SearchBar,
+  TagFilter,
   SessionList,
   LoadingState,
+  RecoveryBanner,
   ErrorToast,
   SuccessToast,
   SaveModal,
+  AddToSessionModal,
   ConfirmDialog,
 } from "./components";
+import type { TabMoveTarget, TabDropTarget } from "./components/TabItem";
+
+/**
+ * What each kind of undo entry reverts, for the "… undone" message.
+ */
+const UNDO_LABELS: Record<UndoEntryType, string> = {
+  SAVE_SESSION: "save",
+  DELETE_SESSION: "delete",
+  RENAME_SESSION: "rename",
+  APPLY_GROUPING: "grouping",
+  IMPORT: "import",
+  STASH_TABS: "stash",
+  DEDUPE_SESSION: "duplicate removal",
+  UPDATE_TAB: "tab edit",
+  DELETE_TAB: "tab removal",
+  MOVE_TAB: "tab move",
+  MERGE_SESSIONS: "merge",
+  SPLIT_SESSION: "split",
+  ADD_TO_SESSION: "add to session",
+  TAG_SESSION: "tagging",
+  ARCHIVE_SESSION: "archive",
+  EDIT_NOTES: "notes edit",
+};
+
+/**
+ * Move an ID to just before another one in a list.
+ */
+function moveBefore(ids: string[], id: string, beforeId: string): string[] {
+  const rest = ids.filter((other) => other !== id);
+  const index = rest.indexOf(beforeId);
+  return index === -1 ? ids : [...rest.slice(0, index), id, ...rest.slice(index)];
+}
 
 const App: React.FC = () => {
   // Session state from hook
@@ -28,15 +77,38 @@ const App: React.FC = () => {
   // UI state
   const [searchQuery, setSearchQuery] = useState("");
   const [saving, setSaving] = useState(false);
+  const [adding, setAdding] = useState(false);
   const [undoing, setUndoing] = useState(false);
   const [restoringId, setRestoringId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
   const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [savingNotesId, setSavingNotesId] = useState<string | null>(null);
+  const [dedupingId, setDedupingId] = useState<string | null>(null);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
   const [undoCount, setUndoCount] = useState(0);
+  const [focusSearch, setFocusSearch] = useState(false);
+
+  // Tag state (tags in use, and the one the list is filtered to)
+  const [tags, setTags] = useState<TagUsage[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  // Settings (for the session list order)
+  const [settings, setSettings] = useState<Settings | null>(null);
+
+  // Workspace state (sessions kept in sync with a window)
+  const [workspaces, setWorkspaces] = useState<WorkspacesResponse | null>(null);
+
+  // Crash recovery state
+  const [previousState, setPreviousState] = useState<BrowsingSnapshot | null>(null);
+  const [restoringPrevious, setRestoringPrevious] = useState(false);
 
   // Modal state
   const [showSaveModal, setShowSaveModal] = useState(false);
+  const [showAddModal, setShowAddModal] = useState(false);
   const [deleteSessionId, setDeleteSessionId] = useState<string | null>(null);
+  const [switchSessionId, setSwitchSessionId] = useState<string | null>(null);
 
   // Toast state
   const [error, setError] = useState<string | null>(null);
@@ -55,31 +127,123 @@ const App: React.FC = () => {
     fetchUndoCount();
   }, []);
 
+  // Focus search if opened by the open-search shortcut
+  React.useEffect(() => {
+    const fetchSearchFocus = async () => {
+      try {
+        const response = await sendMessage(MessageAction.CONSUME_SEARCH_FOCUS);
+        setFocusSearch(response.focusSearch);
+      } catch {
+        // Ignore errors
+      }
+    };
+    fetchSearchFocus();
+  }, []);
+
+  // Fetch settings on mount
+  React.useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        setSettings(await sendMessage(MessageAction.GET_SETTINGS));
+      } catch {
+        // Ignore errors
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  // Fetch tags in use whenever sessions change
+  React.useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await sendMessage(MessageAction.GET_TAGS));
+      } catch {
+        // Ignore errors
+      }
+    };
+    fetchTags();
+  }, [sessions]);
+
+  // Fetch which sessions are live in a window
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      setWorkspaces(await sendMessage(MessageAction.GET_WORKSPACES));
+    } catch {
+      // Ignore errors
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  // Check for a browsing state left over from before a crash or shutdown
+  React.useEffect(() => {
+    const fetchPreviousState = async () => {
+      try {
+        const { snapshot } = await sendMessage(MessageAction.GET_PREVIOUS_STATE);
+        setPreviousState(snapshot);
+      } catch {
+        // Ignore errors
+      }
+    };
+    fetchPreviousState();
+  }, []);
+
   // Handle save session (with modal)
   const handleSaveClick = useCallback(() => {
     setShowSaveModal(true);
   }, []);
 
   const handleSave = useCallback(
-    async (name: string) => {
+    async (name: string, options: Omit<SaveSessionPayload, "name">) => {
       setSaving(true);
       setError(null);
 
       try {
-        const session = await sendMessage(MessageAction.SAVE_SESSION, { name });
+        const session = await sendMessage(MessageAction.SAVE_SESSION, { name, ...options });
         await refetch();
         setUndoCount((c) => Math.min(c + 1, 10));
-        setSuccess(`Saved ${session.groups[0]?.tabs.length || 0} tabs`);
+        const tabCount = session.groups.reduce((sum, g) => sum + g.tabs.length, 0);
+        setSuccess(
+          `${options.closeTabs ? "Stashed" : "Saved"} ${tabCount} tab${tabCount !== 1 ? "s" : ""}`
+        );
         setShowSaveModal(false);
+        if (options.trackWindow) {
+          await fetchWorkspaces();
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to save session");
       } finally {
         setSaving(false);
       }
     },
+    [refetch, fetchWorkspaces]
+  );
+
+  // Handle adding open tabs to an existing session
+  const handleAddToSession = useCallback(
+    async (payload: AddToSessionPayload) => {
+      setAdding(true);
+      setError(null);
+
+      try {
+        const { session, tabsAdded } = await sendMessage(MessageAction.ADD_TO_SESSION, payload);
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess(`Added ${tabsAdded} tab${tabsAdded !== 1 ? "s" : ""} to ${session.name}`);
+        setShowAddModal(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to add to session");
+      } finally {
+        setAdding(false);
+      }
+    },
     [refetch]
   );
 
+  const loadWindowTabs = useCallback(() => sendMessage(MessageAction.GET_WINDOW_TABS), []);
+
   // Handle undo
   const handleUndo = useCallback(async () => {
     setUndoing(true);
@@ -91,16 +255,7 @@ const App: React.FC = () => {
 
       if (result.undone) {
         setUndoCount((c) => Math.max(c - 1, 0));
-        const actionName =
-          result.undone.type === "SAVE_SESSION"
-            ? "save"
-            : result.undone.type === "DELETE_SESSION"
-              ? "delete"
-              : result.undone.type === "RENAME_SESSION"
-                ? "rename"
-                : result.undone.type === "IMPORT"
-                  ? "import"
-                  : "action";
+        const actionName = UNDO_LABELS[result.undone.type] ?? "action";
         setSuccess(`Restored — ${actionName} undone`);
       } else {
         setError("Nothing to undo");
@@ -127,6 +282,32 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Handle crash recovery
+  const handleRestorePrevious = useCallback(async () => {
+    setRestoringPrevious(true);
+    setError(null);
+
+    try {
+      const result = await sendMessage(MessageAction.RESTORE_PREVIOUS_STATE);
+      setPreviousState(null);
+      setSuccess(`Opened ${result.tabsOpened} tab${result.tabsOpened !== 1 ? "s" : ""}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore browsing state");
+    } finally {
+      setRestoringPrevious(false);
+    }
+  }, []);
+
+  const handleDismissPrevious = useCallback(async () => {
+    setPreviousState(null);
+
+    try {
+      await sendMessage(MessageAction.DISMISS_PREVIOUS_STATE);
+    } catch (err) {
+      console.error("[TabFlow] Failed to dismiss previous state:", err);
+    }
+  }, []);
+
   // Handle delete session (with confirmation)
   const handleDeleteClick = useCallback((sessionId: string) => {
     setDeleteSessionId(sessionId);
@@ -142,7 +323,7 @@ const App: React.FC = () => {
       await sendMessage(MessageAction.DELETE_SESSION, { sessionId: deleteSessionId });
       await refetch();
       setUndoCount((c) => Math.min(c + 1, 10));
-      setSuccess("Session removed — you can undo this");
+      setSuccess("Session moved to the trash — you can undo this");
       setDeleteSessionId(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to delete session");
@@ -151,6 +332,26 @@ const App: React.FC = () => {
     }
   }, [deleteSessionId, refetch]);
 
+  // Handle archive session (no confirmation: nothing is lost, and it can be undone)
+  const handleArchive = useCallback(
+    async (sessionId: string) => {
+      setArchivingId(sessionId);
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.ARCHIVE_SESSION, { sessionId });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess("Session archived — find it in Settings");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to archive session");
+      } finally {
+        setArchivingId(null);
+      }
+    },
+    [refetch]
+  );
+
   // Handle rename session
   const handleRename = useCallback(
     async (sessionId: string, newName: string) => {
@@ -171,6 +372,332 @@ const App: React.FC = () => {
     [refetch]
   );
 
+  // Handle set tags
+  const handleSetTags = useCallback(
+    async (sessionId: string, newTags: Tag[]) => {
+      setTaggingId(sessionId);
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.SET_SESSION_TAGS, { sessionId, tags: newTags });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess("Tags updated");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update tags");
+      } finally {
+        setTaggingId(null);
+      }
+    },
+    [refetch]
+  );
+
+  // Handle set notes
+  const handleSetNotes = useCallback(
+    async (sessionId: string, notes: string) => {
+      setSavingNotesId(sessionId);
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.SET_SESSION_NOTES, { sessionId, notes });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess("Notes saved");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save notes");
+      } finally {
+        setSavingNotesId(null);
+      }
+    },
+    [refetch]
+  );
+
+  // Handle pin/unpin
+  const handleTogglePin = useCallback(
+    async (sessionId: string, pinned: boolean) => {
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.PIN_SESSION, { sessionId, pinned });
+        await refetch();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to pin session");
+      }
+    },
+    [refetch]
+  );
+
+  // Handle sort order change (remembered in settings)
+  const handleSortChange = useCallback(
+    async (sessionSort: SessionSortOrder) => {
+      if (!settings) return;
+
+      const newSettings = { ...settings, sessionSort };
+      setSettings(newSettings);
+
+      try {
+        await sendMessage(MessageAction.UPDATE_SETTINGS, newSettings);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save sort order");
+      }
+    },
+    [settings]
+  );
+
+  // Handle remove duplicates
+  const handleRemoveDuplicates = useCallback(
+    async (sessionId: string) => {
+      setDedupingId(sessionId);
+      setError(null);
+
+      try {
+        const { removedCount } = await sendMessage(MessageAction.DEDUPE_SESSION, { sessionId });
+        if (removedCount === 0) {
+          setSuccess("No duplicates found");
+          return;
+        }
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess(`Removed ${removedCount} duplicate${removedCount !== 1 ? "s" : ""}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to remove duplicates");
+      } finally {
+        setDedupingId(null);
+      }
+    },
+    [refetch]
+  );
+
+  // Handle per-tab actions inside a saved session
+  const handleOpenTab = useCallback(async (location: TabLocation) => {
+    setError(null);
+
+    try {
+      await sendMessage(MessageAction.OPEN_TAB, location);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open tab");
+    }
+  }, []);
+
+  const handleUpdateTab = useCallback(
+    async (location: TabLocation, updates: { title: string; url: string; note: string }) => {
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.UPDATE_TAB, { ...location, ...updates });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess("Tab updated");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update tab");
+      }
+    },
+    [refetch]
+  );
+
+  const handleDeleteTab = useCallback(
+    async (location: TabLocation) => {
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.DELETE_TAB, location);
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess("Tab removed — you can undo this");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to remove tab");
+      }
+    },
+    [refetch]
+  );
+
+  const handleMoveTab = useCallback(
+    async (from: TabLocation, target: TabMoveTarget) => {
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.MOVE_TAB, {
+          from,
+          to: { sessionId: target.sessionId, groupId: target.groupId },
+        });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess(`Moved to ${target.groupName}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to move tab");
+      }
+    },
+    [refetch]
+  );
+
+  // Handle merging and splitting sessions
+  const handleMergeSessions = useCallback(
+    async (sessionIds: string[], dedupe: boolean) => {
+      setError(null);
+
+      try {
+        const { session, removedCount } = await sendMessage(MessageAction.MERGE_SESSIONS, {
+          sessionIds,
+          dedupe,
+        });
+        await refetch();
+        await fetchWorkspaces();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess(
+          `Merged ${sessionIds.length} sessions into ${session.name}` +
+            (removedCount > 0
+              ? ` — ${removedCount} duplicate${removedCount !== 1 ? "s" : ""} removed`
+              : "")
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to merge sessions");
+      }
+    },
+    [refetch, fetchWorkspaces]
+  );
+
+  const handleSplitSession = useCallback(
+    async (sessionId: string, groupIds: string[], name: string) => {
+      setError(null);
+
+      try {
+        const { newSession } = await sendMessage(MessageAction.SPLIT_SESSION, {
+          sessionId,
+          groupIds,
+          name,
+        });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+        setSuccess(`Split into ${newSession.name}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to split session");
+      }
+    },
+    [refetch]
+  );
+
+  // Handle drag-and-drop reordering
+  const handleDropTab = useCallback(
+    async (from: TabLocation, to: TabDropTarget) => {
+      // Dropped where it already is
+      const sameGroup = from.sessionId === to.sessionId && from.groupId === to.groupId;
+      if (sameGroup && (to.index === from.tabIndex || to.index === from.tabIndex + 1)) return;
+
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.MOVE_TAB, { from, to });
+        await refetch();
+        setUndoCount((c) => Math.min(c + 1, 10));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to move tab");
+      }
+    },
+    [refetch]
+  );
+
+  const handleDropGroup = useCallback(
+    async (sessionId: string, groupId: string, beforeGroupId: string) => {
+      const session = sessions.find((s) => s.id === sessionId);
+      if (!session) return;
+
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.REORDER_GROUPS, {
+          sessionId,
+          groupIds: moveBefore(
+            session.groups.map((g) => g.id),
+            groupId,
+            beforeGroupId
+          ),
+        });
+        await refetch();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to reorder groups");
+      }
+    },
+    [sessions, refetch]
+  );
+
+  const handleDropSession = useCallback(
+    async (sessionId: string, beforeSessionId: string) => {
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.REORDER_SESSIONS, {
+          sessionIds: moveBefore(
+            sessions.map((s) => s.id),
+            sessionId,
+            beforeSessionId
+          ),
+        });
+        await refetch();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to reorder sessions");
+      }
+    },
+    [sessions, refetch]
+  );
+
+  // Handle workspace switching
+  const liveSessionIds = useMemo(
+    () => workspaces?.bindings.map((b) => b.sessionId) ?? [],
+    [workspaces]
+  );
+  const currentWorkspaceId =
+    workspaces?.bindings.find((b) => b.windowId === workspaces.currentWindowId)?.sessionId ?? null;
+
+  const switchWorkspace = useCallback(
+    async (sessionId: string) => {
+      setSwitchingId(sessionId);
+      setError(null);
+
+      try {
+        const result = await sendMessage(MessageAction.SWITCH_WORKSPACE, { sessionId });
+        await Promise.all([refetch(), fetchWorkspaces()]);
+        setSwitchSessionId(null);
+        if (!result.focused) {
+          setSuccess(
+            `Switched — opened ${result.tabsOpened} tab${result.tabsOpened !== 1 ? "s" : ""}`
+          );
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to switch workspace");
+      } finally {
+        setSwitchingId(null);
+      }
+    },
+    [refetch, fetchWorkspaces]
+  );
+
+  const handleSwitchClick = useCallback(
+    (sessionId: string) => {
+      // This window's tabs are only safe without asking if they belong to a workspace
+      if (currentWorkspaceId || liveSessionIds.includes(sessionId)) {
+        switchWorkspace(sessionId);
+      } else {
+        setSwitchSessionId(sessionId);
+      }
+    },
+    [currentWorkspaceId, liveSessionIds, switchWorkspace]
+  );
+
+  const handleStopSync = useCallback(
+    async (sessionId: string) => {
+      setError(null);
+
+      try {
+        await sendMessage(MessageAction.UNBIND_WORKSPACE, { sessionId });
+        await fetchWorkspaces();
+        setSuccess("Stopped syncing — the session keeps its tabs");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to stop syncing");
+      }
+    },
+    [fetchWorkspaces]
+  );
+
   // Handle copy links (clipboard write in popup context)
   const handleCopyLinks = useCallback(async (session: Session) => {
     try {
@@ -198,6 +725,10 @@ const App: React.FC = () => {
 
   // Find session name for delete confirmation
   const sessionToDelete = deleteSessionId ? sessions.find((s) => s.id === deleteSessionId) : null;
+  const sessionToSwitch = switchSessionId ? sessions.find((s) => s.id === switchSessionId) : null;
+
+  // Drop the tag filter once no session carries that tag
+  const activeTagFilter = tags.some((tag) => tag.name === tagFilter) ? tagFilter : null;
 
   return (
     <div className="flex max-h-popup min-h-[300px] w-popup flex-col bg-surface-50 dark:bg-surface-900">
@@ -258,10 +789,23 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="flex-1 overflow-auto px-3 py-3">
+        {/* Crash Recovery */}
+        {previousState && (
+          <div className="mb-3">
+            <RecoveryBanner
+              snapshot={previousState}
+              onRestore={handleRestorePrevious}
+              onDismiss={handleDismissPrevious}
+              restoring={restoringPrevious}
+            />
+          </div>
+        )}
+
         {/* Primary Action Area */}
         <div className="mb-3">
           <ActionBar
             onSave={handleSaveClick}
+            onAddTo={sessions.length > 0 ? () => setShowAddModal(true) : undefined}
             onUndo={handleUndo}
             saving={saving}
             undoing={undoing}
@@ -271,11 +815,12 @@ const App: React.FC = () => {
 
         {/* Search - Gentle utility */}
         <div className="mb-3">
-          <SearchBar onSearch={handleSearch} />
+          <SearchBar onSearch={handleSearch} autoFocus={focusSearch} />
+          <TagFilter tags={tags} activeTag={activeTagFilter} onChange={setTagFilter} />
         </div>
 
-        {/* Sessions List */}
-        {loading ? (
+        {/* Sessions List - placeholders only on first load, so refetches keep cards expanded */}
+        {loading && sessions.length === 0 ? (
           <LoadingState count={2} />
         ) : fetchError ? (
           <div className="py-12 text-center">
@@ -306,13 +851,40 @@ const App: React.FC = () => {
           <SessionList
             sessions={sessions}
             searchQuery={searchQuery}
+            tagFilter={activeTagFilter}
+            tags={tags}
+            sortOrder={settings?.sessionSort ?? "custom"}
+            onSortChange={handleSortChange}
             onRestore={handleRestore}
             onDelete={handleDeleteClick}
+            onArchive={handleArchive}
             onRename={handleRename}
+            onSetTags={handleSetTags}
+            onSetNotes={handleSetNotes}
+            onTogglePin={handleTogglePin}
             onCopyLinks={handleCopyLinks}
+            onRemoveDuplicates={handleRemoveDuplicates}
+            onSwitchWorkspace={handleSwitchClick}
+            onStopSync={handleStopSync}
+            onOpenTab={handleOpenTab}
+            onUpdateTab={handleUpdateTab}
+            onDeleteTab={handleDeleteTab}
+            onMoveTab={handleMoveTab}
+            onDropTab={handleDropTab}
+            onDropGroup={handleDropGroup}
+            onDropSession={handleDropSession}
+            onMergeSessions={handleMergeSessions}
+            onSplitSession={handleSplitSession}
             restoringId={restoringId}
             deletingId={deletingId}
+            archivingId={archivingId}
             renamingId={renamingId}
+            taggingId={taggingId}
+            savingNotesId={savingNotesId}
+            dedupingId={dedupingId}
+            switchingId={switchingId}
+            liveSessionIds={liveSessionIds}
+            currentWorkspaceId={currentWorkspaceId}
           />
         )}
       </main>
@@ -322,14 +894,24 @@ const App: React.FC = () => {
         isOpen={showSaveModal}
         onClose={() => setShowSaveModal(false)}
         onSave={handleSave}
+        loadWindowTabs={loadWindowTabs}
         saving={saving}
       />
 
+      {/* Add to Session Modal */}
+      <AddToSessionModal
+        isOpen={showAddModal}
+        sessions={sessions}
+        onClose={() => setShowAddModal(false)}
+        onAdd={handleAddToSession}
+        adding={adding}
+      />
+
       {/* Delete Confirmation - Reassuring, not alarming */}
       <ConfirmDialog
         isOpen={!!deleteSessionId}
         title="Remove this session?"
-        message={`"${sessionToDelete?.name || "Session"}" will be removed. Don't worry — you can undo this right after.`}
+        message={`"${sessionToDelete?.name || "Session"}" will move to the trash. Don't worry — you can undo this right after, or restore it from Settings.`}
         confirmLabel="Remove"
         cancelLabel="Keep it"
         variant="gentle"
@@ -338,6 +920,19 @@ const App: React.FC = () => {
         loading={deletingId === deleteSessionId}
       />
 
+      {/* Switch Confirmation - this window's tabs aren't saved anywhere */}
+      <ConfirmDialog
+        isOpen={!!switchSessionId}
+        title="Switch this window?"
+        message={`This window's tabs will be closed and "${sessionToSwitch?.name || "Session"}" opened in their place. Save them first if you want to keep them.`}
+        confirmLabel="Switch"
+        cancelLabel="Not now"
+        variant="gentle"
+        onConfirm={() => switchSessionId && switchWorkspace(switchSessionId)}
+        onCancel={() => setSwitchSessionId(null)}
+        loading={switchingId === switchSessionId}
+      />
+
       {/* Toasts */}
       {error && <ErrorToast message={error} onDismiss={() => setError(null)} />}
       {success && <SuccessToast message={success} onDismiss={() => setSuccess(null)} />}
@@ -14,6 +14,8 @@ import { Button } from "@shared/components/ui";
 
 interface ActionBarProps {
   onSave: () => void;
+  /** Add open tabs to an existing session (hidden when there are none) */
+  onAddTo?: () => void;
   onUndo: () => void;
   saving: boolean;
   undoing: boolean;
@@ -22,6 +24,7 @@ interface ActionBarProps {
 
 export const ActionBar: React.FC<ActionBarProps> = ({
   onSave,
+  onAddTo,
   onUndo,
   saving,
   undoing,
@@ -70,6 +73,32 @@ export const ActionBar: React.FC<ActionBarProps> = ({
         )}
       </Button>
 
+      {/* Add to existing session - Quiet secondary action */}
+      {onAddTo && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onAddTo}
+          title="Add to an existing session"
+          className="text-stone-400 hover:bg-stone-100 hover:text-stone-600 dark:text-stone-500 dark:hover:bg-stone-800 dark:hover:text-stone-300"
+          aria-label="Add to an existing session"
+        >
+          <svg
+            className="h-4 w-4"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={1.5}
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M12 10.5v6m3-3H9m4.06-7.19l-2.12-2.12a1.5 1.5 0 00-1.061-.44H4.5A2.25 2.25 0 002.25 6v12a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9a2.25 2.25 0 00-2.25-2.25h-5.379a1.5 1.5 0 01-1.06-.44z"
+            />
+          </svg>
+        </Button>
+      )}
+
       {/* Undo - Quiet, supportive secondary action */}
       <Button
         variant="ghost"
@@ -0,0 +1,138 @@
+/**
+ * TabFlow – Add to Session Modal
+ *
+ * Design philosophy:
+ * - Saving more tabs into a session you already have shouldn't mean starting over
+ * - One choice for what to add, one for where it goes
+ *
+ * Uses shadcn/ui AlertDialog for accessibility and polish.
+ */
+
+import React, { useState, useEffect } from "react";
+import type { Session } from "@shared/types";
+import type { AddToSessionPayload, AddToSessionScope } from "@shared/messages";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogFooter,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogAction,
+  AlertDialogCancel,
+} from "@shared/components/ui";
+
+interface AddToSessionModalProps {
+  isOpen: boolean;
+  sessions: Session[];
+  onClose: () => void;
+  onAdd: (payload: AddToSessionPayload) => void;
+  adding: boolean;
+}
+
+const SCOPES: { value: AddToSessionScope; label: string }[] = [
+  { value: "tab", label: "This tab" },
+  { value: "window", label: "This window" },
+];
+
+/**
+ * Encode a target for the select; an empty group ID means a new group.
+ */
+function toTargetValue(sessionId: string, groupId = ""): string {
+  return `${sessionId}/${groupId}`;
+}
+
+export const AddToSessionModal: React.FC<AddToSessionModalProps> = ({
+  isOpen,
+  sessions,
+  onClose,
+  onAdd,
+  adding,
+}) => {
+  const [scope, setScope] = useState<AddToSessionScope>("tab");
+  const [pickedTarget, setPickedTarget] = useState("");
+
+  // Until something is picked, default to the end of the first session
+  const first = sessions[0];
+  const lastGroup = first?.groups[first.groups.length - 1];
+  const target = pickedTarget || (first ? toTargetValue(first.id, lastGroup?.id) : "");
+
+  // Reset when opened
+  useEffect(() => {
+    if (isOpen) {
+      setScope("tab");
+      setPickedTarget("");
+    }
+  }, [isOpen]);
+
+  const handleSubmit = () => {
+    const [sessionId, groupId] = target.split("/");
+    if (!sessionId) return;
+    onAdd({ sessionId, groupId: groupId || undefined, scope });
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && !adding && onClose()}>
+      <AlertDialogContent className="max-w-[340px]">
+        <AlertDialogHeader className="text-left">
+          <AlertDialogTitle>Add to a session</AlertDialogTitle>
+          <AlertDialogDescription>Keep growing a session you already have</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {/* What to add */}
+        <div className="flex gap-1 rounded-xl bg-secondary p-1">
+          {SCOPES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              disabled={adding}
+              aria-pressed={scope === value}
+              className={`flex-1 rounded-lg px-3 py-1.5 text-sm transition-colors duration-150 ${
+                scope === value
+                  ? "bg-background font-medium text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Where it goes */}
+        <select
+          value={target}
+          onChange={(e) => setPickedTarget(e.target.value)}
+          disabled={adding}
+          aria-label="Add to"
+          className="w-full rounded-xl border border-transparent bg-secondary px-3 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary-500/30"
+        >
+          {sessions.map((session) => (
+            <optgroup key={session.id} label={session.name}>
+              {session.groups.map((group) => (
+                <option key={group.id} value={toTargetValue(session.id, group.id)}>
+                  {group.name}
+                </option>
+              ))}
+              <option value={toTargetValue(session.id)}>New group</option>
+            </optgroup>
+          ))}
+        </select>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={adding} onClick={onClose}>
+            Cancel
+          </AlertDialogCancel>
+          <AlertDialogAction
+            disabled={adding || !target}
+            onClick={handleSubmit}
+            className="bg-primary-500 text-white hover:bg-primary-600"
+          >
+            {adding ? "Adding…" : scope === "tab" ? "Add tab" : "Add window"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AddToSessionModal;
@@ -8,34 +8,123 @@
  */
 
 import React from "react";
-import type { Group } from "@shared/types";
-import TabItem from "./TabItem";
+import type { Group, GroupColor, TabLocation } from "@shared/types";
+import TabItem, { type TabMoveTarget, type TabDropTarget } from "./TabItem";
+import HighlightedText from "./HighlightedText";
+import { getDragProps, useDropTarget } from "../hooks";
+
+/**
+ * Dot colors matching Chrome's native tab group palette.
+ */
+export const GROUP_COLOR_CLASSES: Record<GroupColor, string> = {
+  grey: "bg-stone-400",
+  blue: "bg-blue-500",
+  red: "bg-red-500",
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  pink: "bg-pink-500",
+  purple: "bg-purple-500",
+  cyan: "bg-cyan-500",
+  orange: "bg-orange-500",
+};
 
 interface GroupViewProps {
   group: Group;
-  searchQuery?: string;
+  /** Search hits: show only these tabs, with the terms marked */
+  matchingTabIndexes?: number[];
+  highlightTerms?: string[];
+  /** Session the group belongs to (enables tab actions) */
+  sessionId?: string;
+  /** Every group a tab could be moved to, including this one */
+  moveTargets?: TabMoveTarget[];
+  onOpenTab?: (location: TabLocation) => void;
+  onUpdateTab?: (
+    location: TabLocation,
+    updates: { title: string; url: string; note: string }
+  ) => void;
+  onDeleteTab?: (location: TabLocation) => void;
+  onMoveTab?: (from: TabLocation, target: TabMoveTarget) => void;
+  /** A tab was dropped on this group or one of its tabs */
+  onDropTab?: (from: TabLocation, to: TabDropTarget) => void;
+  /** A group of the same session was dropped here, to go before this one */
+  onDropGroup?: (groupId: string) => void;
+  /** Shows a checkbox for picking the group (e.g. to split it off) */
+  onToggleSelect?: () => void;
+  selected?: boolean;
 }
 
-export const GroupView: React.FC<GroupViewProps> = ({ group, searchQuery = "" }) => {
-  // Filter tabs by search query
-  const filteredTabs = searchQuery
-    ? group.tabs.filter(
-        (tab) =>
-          tab.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          tab.domain.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : group.tabs;
+export const GroupView: React.FC<GroupViewProps> = ({
+  group,
+  matchingTabIndexes,
+  highlightTerms = [],
+  sessionId,
+  moveTargets = [],
+  onOpenTab,
+  onUpdateTab,
+  onDeleteTab,
+  onMoveTab,
+  onDropTab,
+  onDropGroup,
+  onToggleSelect,
+  selected = false,
+}) => {
+  const { isOver, dropProps } = useDropTarget({
+    tab:
+      sessionId && onDropTab
+        ? (from) => onDropTab(from, { sessionId, groupId: group.id })
+        : undefined,
+    group:
+      sessionId && onDropGroup
+        ? (dragged) => {
+            if (dragged.sessionId === sessionId && dragged.groupId !== group.id) {
+              onDropGroup(dragged.groupId);
+            }
+          }
+        : undefined,
+  });
+
+  // Keep only search hits, keeping each tab's index in the group
+  const filteredTabs = group.tabs
+    .map((tab, tabIndex) => ({ tab, tabIndex }))
+    .filter(({ tabIndex }) => !matchingTabIndexes || matchingTabIndexes.includes(tabIndex));
+
+  const otherGroups = moveTargets.filter(
+    (target) => target.sessionId !== sessionId || target.groupId !== group.id
+  );
 
   if (filteredTabs.length === 0) {
     return null;
   }
 
   return (
-    <div className="mt-3">
-      {/* Group Header - subtle, not demanding */}
-      <div className="mb-1.5 flex items-center gap-2">
+    <div
+      {...dropProps}
+      className={`mt-3 rounded-lg ${isOver ? "bg-primary-50/60 dark:bg-primary-950/30" : ""}`}
+    >
+      {/* Group Header - subtle, not demanding; drag to reorder groups */}
+      <div
+        {...(sessionId && onDropGroup
+          ? getDragProps("group", { sessionId, groupId: group.id })
+          : {})}
+        className={`mb-1.5 flex items-center gap-2 ${sessionId && onDropGroup ? "cursor-grab" : ""}`}
+      >
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={onToggleSelect}
+            aria-label={`Select group ${group.name}`}
+            className="h-3 w-3 flex-shrink-0 accent-primary-500"
+          />
+        )}
+        {group.color && (
+          <span
+            className={`h-2 w-2 flex-shrink-0 rounded-full ${GROUP_COLOR_CLASSES[group.color]}`}
+            aria-hidden="true"
+          />
+        )}
         <span className="text-[11px] font-medium text-stone-500 dark:text-stone-400">
-          {group.name}
+          <HighlightedText text={group.name} terms={highlightTerms} />
         </span>
         <span className="text-[10px] text-stone-400 dark:text-stone-500">
           {filteredTabs.length}
@@ -44,9 +133,38 @@ export const GroupView: React.FC<GroupViewProps> = ({ group, searchQuery = "" })
 
       {/* Tabs List - organized, calm */}
       <div className="ml-0.5 space-y-0.5 border-l-2 border-stone-100 pl-2.5 dark:border-surface-700">
-        {filteredTabs.map((tab, index) => (
-          <TabItem key={`${tab.url}-${index}`} tab={tab} highlighted={!!searchQuery} />
-        ))}
+        {filteredTabs.map(({ tab, tabIndex }) => {
+          const location: TabLocation | null = sessionId
+            ? { sessionId, groupId: group.id, tabIndex }
+            : null;
+
+          return (
+            <TabItem
+              key={`${tab.url}-${tabIndex}`}
+              tab={tab}
+              highlighted={!!matchingTabIndexes}
+              highlightTerms={highlightTerms}
+              location={location ?? undefined}
+              moveTargets={otherGroups}
+              onOpen={location && onOpenTab ? () => onOpenTab(location) : undefined}
+              onUpdate={
+                location && onUpdateTab ? (updates) => onUpdateTab(location, updates) : undefined
+              }
+              onDelete={location && onDeleteTab ? () => onDeleteTab(location) : undefined}
+              onMove={location && onMoveTab ? (target) => onMoveTab(location, target) : undefined}
+              onDropTab={
+                location && onDropTab
+                  ? (from) =>
+                      onDropTab(from, {
+                        sessionId: location.sessionId,
+                        groupId: location.groupId,
+                        index: tabIndex,
+                      })
+                  : undefined
+              }
+            />
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,41 @@
+/**
+ * TabFlow – Highlighted Text Component
+ *
+ * Design philosophy:
+ * - Search hits should be easy to spot at a glance
+ * - A soft marker, in the same warm tone as matching tabs
+ */
+
+import React from "react";
+import { splitHighlights } from "@shared/search";
+
+interface HighlightedTextProps {
+  text: string;
+  /** Lowercased terms to mark */
+  terms?: string[];
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms = [] }) => {
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, i) =>
+        segment.match ? (
+          <mark
+            key={i}
+            className="rounded-sm bg-amber-200/70 text-inherit dark:bg-amber-500/30 dark:text-inherit"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,166 @@
+/**
+ * TabFlow – Markdown Text Component
+ *
+ * Design philosophy:
+ * - Notes are jotted down, not typeset: paragraphs, lists, headings,
+ *   **bold**, *italic*, `code` and [links](https://…) cover them
+ * - Rendered as React elements, never as HTML, so notes can't inject markup
+ * - Search hits are marked inside notes like everywhere else
+ */
+
+import React from "react";
+import HighlightedText from "./HighlightedText";
+
+interface MarkdownTextProps {
+  text: string;
+  /** Lowercased terms to mark */
+  terms?: string[];
+}
+
+type Block =
+  | { kind: "paragraph"; lines: string[] }
+  | { kind: "heading"; text: string }
+  | { kind: "list"; ordered: boolean; items: string[] };
+
+/** `code` | **bold** | *italic* | _italic_ | [text](http(s) URL) */
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*([^*]+)\*\*|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*)$/;
+
+/**
+ * Split notes into blocks. Blank lines end paragraphs and lists.
+ */
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const last = blocks[blocks.length - 1];
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    const heading = HEADING_PATTERN.exec(line);
+
+    if (!line.trim()) {
+      blocks.push({ kind: "paragraph", lines: [] });
+    } else if (heading) {
+      blocks.push({ kind: "heading", text: heading[1] });
+    } else if (listItem) {
+      const ordered = !listItem[1];
+      if (last?.kind === "list" && last.ordered === ordered) {
+        last.items.push(listItem[2]);
+      } else {
+        blocks.push({ kind: "list", ordered, items: [listItem[2]] });
+      }
+    } else if (last?.kind === "paragraph") {
+      last.lines.push(line);
+    } else {
+      blocks.push({ kind: "paragraph", lines: [line] });
+    }
+  }
+
+  return blocks.filter((block) => block.kind !== "paragraph" || block.lines.length > 0);
+}
+
+/**
+ * Render one line of inline markdown.
+ */
+function renderInline(text: string, terms: string[]): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > position) {
+      nodes.push(
+        <HighlightedText key={position} text={text.slice(position, start)} terms={terms} />
+      );
+    }
+
+    const [, code, bold, italic, underscored, linkText, href] = match;
+    if (code !== undefined) {
+      nodes.push(
+        <code
+          key={start}
+          className="rounded bg-stone-100 px-1 font-mono text-[11px] dark:bg-surface-800"
+        >
+          {code}
+        </code>
+      );
+    } else if (bold !== undefined) {
+      nodes.push(
+        <strong key={start} className="font-medium text-stone-700 dark:text-stone-200">
+          <HighlightedText text={bold} terms={terms} />
+        </strong>
+      );
+    } else if (linkText !== undefined) {
+      nodes.push(
+        <a
+          key={start}
+          href={href}
+          target="_blank"
+          rel="noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="text-primary-600 underline decoration-primary-300 underline-offset-2 hover:text-primary-700 dark:text-primary-400 dark:decoration-primary-700"
+        >
+          <HighlightedText text={linkText} terms={terms} />
+        </a>
+      );
+    } else {
+      nodes.push(
+        <em key={start}>
+          <HighlightedText text={italic ?? underscored} terms={terms} />
+        </em>
+      );
+    }
+
+    position = start + match[0].length;
+  }
+
+  if (position < text.length) {
+    nodes.push(<HighlightedText key={position} text={text.slice(position)} terms={terms} />);
+  }
+  return nodes;
+}
+
+export const MarkdownText: React.FC<MarkdownTextProps> = ({ text, terms = [] }) => {
+  return (
+    <div className="space-y-1.5 break-words text-xs leading-relaxed text-stone-600 dark:text-stone-300">
+      {parseBlocks(text).map((block, i) => {
+        switch (block.kind) {
+          case "heading":
+            return (
+              <p key={i} className="font-medium text-stone-700 dark:text-stone-200">
+                {renderInline(block.text, terms)}
+              </p>
+            );
+          case "list": {
+            const ListTag = block.ordered ? "ol" : "ul";
+            return (
+              <ListTag
+                key={i}
+                className={`space-y-0.5 pl-4 ${block.ordered ? "list-decimal" : "list-disc"}`}
+              >
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item, terms)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          default:
+            return (
+              <p key={i}>
+                {block.lines.map((line, j) => (
+                  <React.Fragment key={j}>
+                    {j > 0 && <br />}
+                    {renderInline(line, terms)}
+                  </React.Fragment>
+                ))}
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownText;
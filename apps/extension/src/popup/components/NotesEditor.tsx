@@ -0,0 +1,88 @@
+/**
+ * TabFlow – Notes Editor Component
+ *
+ * Design philosophy:
+ * - A plain textarea: notes are markdown, written the way people already do
+ * - Saved in one step, so a change is one undo away
+ */
+
+import React, { useState, useRef, useEffect } from "react";
+import { MAX_SESSION_NOTES_LENGTH } from "@shared/constants";
+
+interface NotesEditorProps {
+  notes: string;
+  onSave: (notes: string) => void;
+  onClose: () => void;
+  saving: boolean;
+}
+
+export const NotesEditor: React.FC<NotesEditorProps> = ({ notes, onSave, onClose, saving }) => {
+  const [value, setValue] = useState(notes);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }, []);
+
+  const handleSave = () => {
+    if (value.trim() === notes.trim()) {
+      onClose();
+    } else {
+      onSave(value);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={saving}
+        rows={4}
+        maxLength={MAX_SESSION_NOTES_LENGTH}
+        placeholder="Notes – markdown works: **bold**, - lists, [links](https://…)"
+        aria-label="Session notes"
+        className="w-full resize-y rounded-lg border border-stone-200 bg-white px-2.5 py-1.5 text-xs leading-relaxed text-stone-700 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-primary-500/30 dark:border-surface-700 dark:bg-surface-800 dark:text-stone-200 dark:placeholder:text-stone-500 dark:focus:ring-primary-400/30"
+      />
+      <div className="flex items-center justify-between text-[11px]">
+        <span className="text-stone-400 dark:text-stone-500">Ctrl+Enter to save</span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-stone-400 hover:text-stone-600 dark:hover:text-stone-300"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50 dark:text-primary-400"
+          >
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotesEditor;
@@ -0,0 +1,62 @@
+/**
+ * TabFlow – Recovery Banner Component
+ *
+ * Design philosophy:
+ * - After a crash, the first thing you see is a way back
+ * - Offer, don't insist: dismissing is one click
+ */
+
+import React from "react";
+import type { BrowsingSnapshot } from "@shared/types";
+import { Button } from "@shared/components/ui";
+
+interface RecoveryBannerProps {
+  snapshot: BrowsingSnapshot;
+  onRestore: () => void;
+  onDismiss: () => void;
+  restoring: boolean;
+}
+
+export const RecoveryBanner: React.FC<RecoveryBannerProps> = ({
+  snapshot,
+  onRestore,
+  onDismiss,
+  restoring,
+}) => {
+  const totalTabs = snapshot.groups.reduce((sum, g) => sum + g.tabs.length, 0);
+  const windowCount = new Set(snapshot.groups.map((g) => g.windowIndex ?? 0)).size;
+  const capturedAt = new Date(snapshot.capturedAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="rounded-xl border border-primary-100 bg-primary-50/60 p-3 dark:border-primary-900 dark:bg-primary-950/30">
+      <p className="text-sm font-medium text-stone-700 dark:text-stone-200">
+        Pick up where you left off?
+      </p>
+      <p className="mt-0.5 text-xs text-stone-500 dark:text-stone-400">
+        {totalTabs} tab{totalTabs !== 1 ? "s" : ""}
+        {windowCount > 1 && ` in ${windowCount} windows`} · last seen {capturedAt}
+      </p>
+      <div className="mt-2.5 flex items-center gap-2">
+        <Button size="sm" onClick={onRestore} disabled={restoring}>
+          {restoring ? "Restoring…" : "Restore previous browsing state"}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDismiss}
+          disabled={restoring}
+          className="text-stone-500 hover:text-stone-700 dark:text-stone-400 dark:hover:text-stone-200"
+        >
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryBanner;
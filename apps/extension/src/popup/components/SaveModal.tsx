@@ -11,6 +11,7 @@
 
 import React, { useState, useRef, useEffect } from "react";
 import { MAX_SESSION_NAME_LENGTH } from "@shared/constants";
+import type { SaveSessionPayload, WindowTab } from "@shared/messages";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -20,17 +21,34 @@ import {
   AlertDialogDescription,
   AlertDialogAction,
   AlertDialogCancel,
+  Switch,
 } from "@shared/components/ui";
+import { TabPicker } from "./TabPicker";
 
 interface SaveModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (name: string) => void;
+  onSave: (name: string, options: Omit<SaveSessionPayload, "name">) => void;
+  /** Load the current window's tabs for the tab selection step */
+  loadWindowTabs: () => Promise<WindowTab[]>;
   saving: boolean;
 }
 
-export const SaveModal: React.FC<SaveModalProps> = ({ isOpen, onClose, onSave, saving }) => {
+export const SaveModal: React.FC<SaveModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  loadWindowTabs,
+  saving,
+}) => {
   const [name, setName] = useState("");
+  const [allWindows, setAllWindows] = useState(false);
+  const [closeTabs, setCloseTabs] = useState(false);
+  const [trackWindow, setTrackWindow] = useState(false);
+  const [step, setStep] = useState<"name" | "tabs">("name");
+  const [windowTabs, setWindowTabs] = useState<WindowTab[]>([]);
+  const [selectedTabs, setSelectedTabs] = useState<Set<number>>(new Set());
+  const [loadingTabs, setLoadingTabs] = useState(false);
   const [showLimitHint, setShowLimitHint] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -45,6 +63,12 @@ export const SaveModal: React.FC<SaveModalProps> = ({ isOpen, onClose, onSave, s
         minute: "2-digit",
       });
       setName(`Session ${dateStr}`);
+      setAllWindows(false);
+      setCloseTabs(false);
+      setTrackWindow(false);
+      setStep("name");
+      setWindowTabs([]);
+      setSelectedTabs(new Set());
       setShowLimitHint(false);
       // Delay focus to ensure modal is mounted
       setTimeout(() => {
@@ -66,13 +90,45 @@ export const SaveModal: React.FC<SaveModalProps> = ({ isOpen, onClose, onSave, s
     }
   };
 
+  const handleChooseTabs = async () => {
+    setStep("tabs");
+    setLoadingTabs(true);
+    try {
+      const tabs = await loadWindowTabs();
+      // Start from the user's multi-selection when there is one, otherwise everything
+      const highlighted = tabs.filter((tab) => tab.highlighted);
+      const initial = highlighted.length > 1 ? highlighted : tabs;
+      setWindowTabs(tabs);
+      setSelectedTabs(new Set(initial.map((tab) => tab.tabId)));
+    } catch {
+      setWindowTabs([]);
+      setSelectedTabs(new Set());
+    } finally {
+      setLoadingTabs(false);
+    }
+  };
+
+  // Only a whole window that stays open can follow the session
+  const canTrackWindow = !allWindows && !closeTabs;
+
   const trimmedName = name.trim();
-  const isValid = trimmedName.length > 0 && trimmedName.length <= MAX_SESSION_NAME_LENGTH;
+  const isNameValid = trimmedName.length > 0 && trimmedName.length <= MAX_SESSION_NAME_LENGTH;
+  const isValid = isNameValid && (step === "name" || selectedTabs.size > 0);
 
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (isValid && !saving) {
-      onSave(trimmedName);
+    if (!isValid || saving) return;
+
+    if (step === "tabs") {
+      // Keep tab strip order rather than click order
+      const tabIds = windowTabs.map((tab) => tab.tabId).filter((id) => selectedTabs.has(id));
+      onSave(trimmedName, { scope: "selected", tabIds, closeTabs });
+    } else {
+      onSave(trimmedName, {
+        scope: allWindows ? "allWindows" : "currentWindow",
+        closeTabs,
+        trackWindow: canTrackWindow && trackWindow,
+      });
     }
   };
 
@@ -88,7 +144,11 @@ export const SaveModal: React.FC<SaveModalProps> = ({ isOpen, onClose, onSave, s
       <AlertDialogContent className="max-w-[340px]">
         <AlertDialogHeader className="text-left">
           <AlertDialogTitle>Save your tabs</AlertDialogTitle>
-          <AlertDialogDescription>Give this session a name you'll remember</AlertDialogDescription>
+          <AlertDialogDescription>
+            {step === "tabs"
+              ? "Pick the tabs to include"
+              : "Give this session a name you'll remember"}
+          </AlertDialogDescription>
         </AlertDialogHeader>
 
         {/* Input field */}
@@ -122,12 +182,91 @@ export const SaveModal: React.FC<SaveModalProps> = ({ isOpen, onClose, onSave, s
               {name.length}/{MAX_SESSION_NAME_LENGTH}
             </span>
           </div>
+
+          {step === "name" ? (
+            <>
+              {/* Scope - current window or every open window */}
+              <label className="mt-3 flex cursor-pointer items-center justify-between px-1">
+                <span className="text-sm text-foreground">Save all open windows</span>
+                <Switch
+                  checked={allWindows}
+                  onCheckedChange={setAllWindows}
+                  disabled={saving}
+                  aria-label="Save all open windows"
+                />
+              </label>
+
+              {/* Stash - close the saved tabs to free up memory */}
+              <label className="mt-3 flex cursor-pointer items-center justify-between px-1">
+                <span className="text-sm text-foreground">Close tabs after saving</span>
+                <Switch
+                  checked={closeTabs}
+                  onCheckedChange={setCloseTabs}
+                  disabled={saving}
+                  aria-label="Close tabs after saving"
+                />
+              </label>
+
+              {/* Workspace - keep the session in sync with this window */}
+              {canTrackWindow && (
+                <label className="mt-3 flex cursor-pointer items-center justify-between px-1">
+                  <span className="text-sm text-foreground">Keep in sync with this window</span>
+                  <Switch
+                    checked={trackWindow}
+                    onCheckedChange={setTrackWindow}
+                    disabled={saving}
+                    aria-label="Keep in sync with this window"
+                  />
+                </label>
+              )}
+
+              {/* Switch to picking individual tabs from this window */}
+              {!allWindows && (
+                <button
+                  type="button"
+                  onClick={handleChooseTabs}
+                  disabled={saving}
+                  className="mt-2 px-1 text-[12px] font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50 dark:text-primary-400"
+                >
+                  Choose tabs…
+                </button>
+              )}
+            </>
+          ) : (
+            <div className="mt-3">
+              {loadingTabs ? (
+                <p className="px-1 py-4 text-center text-[12px] text-muted-foreground">
+                  Loading tabs…
+                </p>
+              ) : (
+                <TabPicker
+                  tabs={windowTabs}
+                  selected={selectedTabs}
+                  onChange={setSelectedTabs}
+                  disabled={saving}
+                />
+              )}
+            </div>
+          )}
         </div>
 
         <AlertDialogFooter>
-          <AlertDialogCancel disabled={saving} onClick={onClose}>
-            Cancel
-          </AlertDialogCancel>
+          {step === "tabs" ? (
+            <AlertDialogCancel
+              disabled={saving}
+              onClick={(e) => {
+                // Go back to the name step without closing the dialog
+                e.preventDefault();
+                setStep("name");
+              }}
+            >
+              Back
+            </AlertDialogCancel>
+          ) : (
+            <AlertDialogCancel disabled={saving} onClick={onClose}>
+              Cancel
+            </AlertDialogCancel>
+          )}
           <AlertDialogAction
             disabled={saving || !isValid}
             onClick={() => handleSubmit()}
@@ -152,6 +291,10 @@ export const SaveModal: React.FC<SaveModalProps> = ({ isOpen, onClose, onSave, s
                 </svg>
                 Saving…
               </>
+            ) : step === "tabs" ? (
+              `${closeTabs ? "Stash" : "Save"} ${selectedTabs.size} tab${selectedTabs.size !== 1 ? "s" : ""}`
+            ) : closeTabs ? (
+              "Save & close"
             ) : (
               "Save"
             )}
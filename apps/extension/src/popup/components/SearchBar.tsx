@@ -7,19 +7,29 @@
  * - Soft focus states that feel welcoming
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { SEARCH_DEBOUNCE_MS } from "@shared/constants";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   placeholder?: string;
+  /** Focus the input (e.g. when opened by the search shortcut) */
+  autoFocus?: boolean;
 }
 
 export const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
-  placeholder = "Find a session…",
+  placeholder = "Search tabs, URLs and groups…",
+  autoFocus = false,
 }) => {
   const [value, setValue] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (autoFocus) {
+      inputRef.current?.focus();
+    }
+  }, [autoFocus]);
 
   // Debounced search
   useEffect(() => {
@@ -56,10 +66,12 @@ export const SearchBar: React.FC<SearchBarProps> = ({
 
       {/* Input - soft, welcoming */}
       <input
+        ref={inputRef}
         type="text"
         value={value}
         onChange={(e) => setValue(e.target.value)}
         placeholder={placeholder}
+        title="Also try domain:github.com, group:work, tag:research, before:2024-05-01, after:2024-05-01"
         className="w-full rounded-xl border-0 bg-stone-50 py-2.5 pl-10 pr-9 text-sm text-stone-700 transition-all duration-200 placeholder:text-stone-400 focus:bg-white focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:bg-surface-800 dark:text-stone-200 dark:placeholder:text-stone-500 dark:focus:bg-surface-700 dark:focus:ring-primary-400/20"
       />
 
@@ -0,0 +1,94 @@
+/**
+ * TabFlow – Selection Bar Component
+ *
+ * Design philosophy:
+ * - Only offer what the current selection allows
+ * - Explain what to pick instead of showing disabled clutter
+ */
+
+import React, { useState } from "react";
+import { Button } from "@shared/components/ui";
+
+interface SelectionBarProps {
+  sessionCount: number;
+  groupCount: number;
+  /** Selected groups all belong to one session, which keeps at least one group */
+  canSplit: boolean;
+  onMerge: (dedupe: boolean) => void;
+  onSplit: () => void;
+  onDone: () => void;
+  busy: boolean;
+}
+
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+  sessionCount,
+  groupCount,
+  canSplit,
+  onMerge,
+  onSplit,
+  onDone,
+  busy,
+}) => {
+  const [dedupe, setDedupe] = useState(false);
+  const canMerge = sessionCount >= 2;
+
+  return (
+    <div className="sticky top-0 z-10 mb-2.5 rounded-xl border border-stone-200 bg-white/95 p-2.5 backdrop-blur dark:border-surface-700 dark:bg-surface-850/95">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-stone-500 dark:text-stone-400">
+          {canMerge || groupCount > 0
+            ? [
+                sessionCount > 0 && `${sessionCount} session${sessionCount !== 1 ? "s" : ""}`,
+                groupCount > 0 && `${groupCount} group${groupCount !== 1 ? "s" : ""}`,
+              ]
+                .filter(Boolean)
+                .join(" · ") + " selected"
+            : "Pick sessions to merge, or groups of one session to split off"}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDone}
+          disabled={busy}
+          className="text-stone-500 hover:text-stone-700 dark:text-stone-400 dark:hover:text-stone-200"
+        >
+          Done
+        </Button>
+      </div>
+
+      {(canMerge || groupCount > 0) && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {canMerge && (
+            <>
+              <Button size="sm" onClick={() => onMerge(dedupe)} disabled={busy}>
+                Merge {sessionCount} sessions
+              </Button>
+              <label className="flex cursor-pointer items-center gap-1.5 text-[11px] text-stone-500 dark:text-stone-400">
+                <input
+                  type="checkbox"
+                  checked={dedupe}
+                  onChange={(e) => setDedupe(e.target.checked)}
+                  disabled={busy}
+                  className="h-3.5 w-3.5 accent-primary-500"
+                />
+                Remove duplicates
+              </label>
+            </>
+          )}
+          {groupCount > 0 &&
+            (canSplit ? (
+              <Button variant="outline" size="sm" onClick={onSplit} disabled={busy}>
+                Split {groupCount} group{groupCount !== 1 ? "s" : ""} into a new session
+              </Button>
+            ) : (
+              <p className="text-[11px] text-stone-400 dark:text-stone-500">
+                To split, pick groups from one session and leave at least one behind
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionBar;
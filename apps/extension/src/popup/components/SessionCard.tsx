@@ -12,40 +12,133 @@
  */
 
 import React, { useState, useRef, useEffect } from "react";
-import type { Session } from "@shared/types";
+import type { Session, TabLocation, Tag, TagUsage } from "@shared/types";
+import type { SessionSearchResult } from "@shared/search";
 import { MAX_SESSION_NAME_LENGTH } from "@shared/constants";
 import GroupView from "./GroupView";
+import HighlightedText from "./HighlightedText";
+import MarkdownText from "./MarkdownText";
+import NotesEditor from "./NotesEditor";
+import TagChip from "./TagChip";
+import TagEditor from "./TagEditor";
+import type { TabMoveTarget, TabDropTarget } from "./TabItem";
+import { getDragProps, useDropTarget } from "../hooks";
+
+const STAR_PATH =
+  "M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z";
 
 interface SessionCardProps {
   session: Session;
-  searchQuery?: string;
+  /** Why the session matched the search, if searching */
+  searchResult?: SessionSearchResult;
+  /** Search terms to mark in names, titles and domains */
+  highlightTerms?: string[];
   onRestore: (sessionId: string) => void;
   onDelete: (sessionId: string) => void;
+  onArchive: (sessionId: string) => void;
   onRename: (sessionId: string, newName: string) => void;
+  onSetTags: (sessionId: string, tags: Tag[]) => void;
+  onSetNotes: (sessionId: string, notes: string) => void;
+  onTogglePin: (sessionId: string, pinned: boolean) => void;
   onCopyLinks: (session: Session) => void;
+  onRemoveDuplicates: (sessionId: string) => void;
+  onSwitchWorkspace: (sessionId: string) => void;
+  onStopSync: (sessionId: string) => void;
+  onOpenTab: (location: TabLocation) => void;
+  onUpdateTab: (
+    location: TabLocation,
+    updates: { title: string; url: string; note: string }
+  ) => void;
+  onDeleteTab: (location: TabLocation) => void;
+  onMoveTab: (from: TabLocation, target: TabMoveTarget) => void;
+  onDropTab: (from: TabLocation, to: TabDropTarget) => void;
+  /** Move a group of this session before another one */
+  onDropGroup: (sessionId: string, groupId: string, beforeGroupId: string) => void;
+  /** Move a session before another one (only in the custom order) */
+  onDropSession?: (sessionId: string, beforeSessionId: string) => void;
+  /** Every group in every session, for moving tabs */
+  moveTargets: TabMoveTarget[];
+  /** Every tag in use, for tag colors and suggestions */
+  allTags: TagUsage[];
+  /** Show checkboxes for picking the session and its groups */
+  selecting: boolean;
+  selected: boolean;
+  selectedGroupIds: string[];
+  onToggleSelect: (sessionId: string) => void;
+  onToggleGroup: (sessionId: string, groupId: string) => void;
   restoring: boolean;
   deleting: boolean;
+  archiving: boolean;
   renaming: boolean;
+  tagging: boolean;
+  savingNotes: boolean;
+  deduping: boolean;
+  switching: boolean;
+  /** Kept in sync with an open window */
+  live: boolean;
+  /** Kept in sync with the window the popup was opened from */
+  currentWorkspace: boolean;
 }
 
 export const SessionCard: React.FC<SessionCardProps> = ({
   session,
-  searchQuery = "",
+  searchResult,
+  highlightTerms = [],
   onRestore,
   onDelete,
+  onArchive,
   onRename,
+  onSetTags,
+  onSetNotes,
+  onTogglePin,
   onCopyLinks,
+  onRemoveDuplicates,
+  onSwitchWorkspace,
+  onStopSync,
+  onOpenTab,
+  onUpdateTab,
+  onDeleteTab,
+  onMoveTab,
+  onDropTab,
+  onDropGroup,
+  onDropSession,
+  moveTargets,
+  allTags,
+  selecting,
+  selected,
+  selectedGroupIds,
+  onToggleSelect,
+  onToggleGroup,
   restoring,
   deleting,
+  archiving,
   renaming,
+  tagging,
+  savingNotes,
+  deduping,
+  switching,
+  live,
+  currentWorkspace,
 }) => {
   const [expanded, setExpanded] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(session.name);
   const [showLimitHint, setShowLimitHint] = useState(false);
+  const [editingTags, setEditingTags] = useState(false);
+  const [editingNotes, setEditingNotes] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const { isOver, dropProps } = useDropTarget({
+    session: onDropSession
+      ? ({ sessionId }) => sessionId !== session.id && onDropSession(sessionId, session.id)
+      : undefined,
+  });
 
   const totalTabs = session.groups.reduce((sum, g) => sum + g.tabs.length, 0);
+  const windowCount = new Set(session.groups.map((g) => g.windowIndex ?? 0)).size;
+  const tags: Tag[] = (session.tags ?? []).map((name) => ({
+    name,
+    color: allTags.find((tag) => tag.name === name)?.color ?? "grey",
+  }));
 
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -117,34 +210,49 @@ export const SessionCard: React.FC<SessionCardProps> = ({
     }
   };
 
-  const hasMatchingTabs = searchQuery
-    ? session.groups.some((group) =>
-        group.tabs.some(
-          (tab) =>
-            tab.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            tab.domain.toLowerCase().includes(searchQuery.toLowerCase())
-        )
-      )
-    : true;
-
-  const isExpanded = expanded || (searchQuery && hasMatchingTabs);
-  if (searchQuery && !hasMatchingTabs) return null;
+  // Matching tabs are shown inline; a session matched by name alone lists all its tabs
+  const matchingTabs = searchResult?.tabs?.size ? searchResult.tabs : null;
+  const isExpanded = expanded || !!matchingTabs;
 
-  const isLoading = restoring || deleting || renaming;
+  const isLoading =
+    restoring ||
+    deleting ||
+    archiving ||
+    renaming ||
+    tagging ||
+    savingNotes ||
+    deduping ||
+    switching;
 
   return (
     <div
+      {...dropProps}
       className={`group rounded-xl border bg-white transition-all duration-200 dark:bg-surface-850 ${
-        isExpanded
-          ? "border-stone-200 shadow-sm dark:border-surface-700"
-          : "border-stone-100 hover:border-stone-200 hover:shadow-sm dark:border-surface-800 dark:hover:border-surface-700"
+        isOver
+          ? "border-primary-300 dark:border-primary-700"
+          : isExpanded
+            ? "border-stone-200 shadow-sm dark:border-surface-700"
+            : "border-stone-100 hover:border-stone-200 hover:shadow-sm dark:border-surface-800 dark:hover:border-surface-700"
       } ${isLoading ? "opacity-60" : ""}`}
     >
-      {/* Card Header */}
+      {/* Card Header - drag to reorder sessions */}
       <div
+        {...(isEditing ? {} : getDragProps("session", { sessionId: session.id }))}
         className="flex cursor-pointer select-none items-start gap-3 px-4 py-3"
         onClick={() => !isEditing && setExpanded(!expanded)}
       >
+        {/* Selection checkbox - merge and split */}
+        {selecting && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={() => onToggleSelect(session.id)}
+            onClick={(e) => e.stopPropagation()}
+            aria-label={`Select ${session.name}`}
+            className="mt-1.5 h-3.5 w-3.5 flex-shrink-0 accent-primary-500"
+          />
+        )}
+
         {/* Expand Chevron - gentle */}
         <button
           className="-ml-1 mt-0.5 rounded-lg p-1 text-stone-300 transition-all duration-200 hover:bg-stone-50 hover:text-stone-500 dark:text-stone-600 dark:hover:bg-surface-800 dark:hover:text-stone-400"
@@ -191,17 +299,73 @@ export const SessionCard: React.FC<SessionCardProps> = ({
           ) : (
             <>
               {/* Title - warm, inviting */}
-              <h3
-                className="cursor-text truncate text-sm font-medium leading-snug text-stone-700 hover:text-stone-900 dark:text-stone-100 dark:hover:text-white"
-                onClick={handleStartEdit}
-                title={`${session.name} – click to rename`}
-              >
-                {session.name}
-              </h3>
+              <div className="flex items-center gap-1.5">
+                {session.pinned && (
+                  <svg
+                    className="h-3 w-3 flex-shrink-0 text-amber-400 dark:text-amber-500"
+                    fill="currentColor"
+                    viewBox="0 0 24 24"
+                    aria-label="Pinned"
+                  >
+                    <path d={STAR_PATH} />
+                  </svg>
+                )}
+                <h3
+                  className="cursor-text truncate text-sm font-medium leading-snug text-stone-700 hover:text-stone-900 dark:text-stone-100 dark:hover:text-white"
+                  onClick={handleStartEdit}
+                  title={`${session.name} – click to rename`}
+                >
+                  <HighlightedText text={session.name} terms={highlightTerms} />
+                </h3>
+              </div>
               {/* Metadata - reassuring context */}
               <p className="mt-0.5 text-xs leading-snug text-stone-400 dark:text-stone-500">
-                {totalTabs} {totalTabs === 1 ? "tab" : "tabs"} · {formatDate(session.createdAt)}
+                {totalTabs} {totalTabs === 1 ? "tab" : "tabs"}
+                {windowCount > 1 && ` · ${windowCount} windows`} · {formatDate(session.createdAt)}
+                {session.autoSaved && " · auto-saved"}
+                {session.notes && " · notes"}
+                {live && (
+                  <>
+                    {" · "}
+                    <span className="text-primary-500 dark:text-primary-400">
+                      {currentWorkspace ? "live in this window" : "live"}
+                    </span>
+                    {" · "}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onStopSync(session.id);
+                      }}
+                      disabled={isLoading}
+                      className="hover:text-stone-600 disabled:opacity-40 dark:hover:text-stone-300"
+                    >
+                      stop syncing
+                    </button>
+                  </>
+                )}
               </p>
+              {/* Tags - quiet labels under the metadata */}
+              {editingTags ? (
+                <TagEditor
+                  sessionId={session.id}
+                  tags={tags}
+                  allTags={allTags}
+                  onSave={(newTags) => {
+                    onSetTags(session.id, newTags);
+                    setEditingTags(false);
+                  }}
+                  onClose={() => setEditingTags(false)}
+                  saving={tagging}
+                />
+              ) : (
+                tags.length > 0 && (
+                  <div className="mt-1.5 flex flex-wrap gap-1">
+                    {tags.map((tag) => (
+                      <TagChip key={tag.name} tag={tag} />
+                    ))}
+                  </div>
+                )
+              )}
             </>
           )}
         </div>
@@ -211,6 +375,76 @@ export const SessionCard: React.FC<SessionCardProps> = ({
           className="flex items-center gap-1 opacity-0 transition-opacity duration-200 group-hover:opacity-100"
           onClick={(e) => e.stopPropagation()}
         >
+          {/* Pin - keep at the top of the list */}
+          <button
+            onClick={() => onTogglePin(session.id, !session.pinned)}
+            disabled={isLoading}
+            title={session.pinned ? "Unpin" : "Pin to top"}
+            className={`rounded-lg p-2 transition-all duration-200 hover:bg-stone-50 disabled:opacity-40 dark:hover:bg-surface-700 ${
+              session.pinned
+                ? "text-amber-400 hover:text-amber-500 dark:text-amber-500 dark:hover:text-amber-400"
+                : "text-stone-300 hover:text-stone-500 dark:text-stone-600 dark:hover:text-stone-400"
+            }`}
+          >
+            <svg
+              className="h-3.5 w-3.5"
+              fill={session.pinned ? "currentColor" : "none"}
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={1.5}
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" d={STAR_PATH} />
+            </svg>
+          </button>
+
+          {/* Edit Tags */}
+          <button
+            onClick={() => setEditingTags(!editingTags)}
+            disabled={isLoading}
+            title="Edit tags"
+            className="rounded-lg p-2 text-stone-300 transition-all duration-200 hover:bg-stone-50 hover:text-stone-500 disabled:opacity-40 dark:text-stone-600 dark:hover:bg-surface-700 dark:hover:text-stone-400"
+          >
+            <svg
+              className="h-3.5 w-3.5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={1.5}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z"
+              />
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6z" />
+            </svg>
+          </button>
+
+          {/* Edit Notes - opens the card to show them */}
+          <button
+            onClick={() => {
+              setEditingNotes(!editingNotes);
+              setExpanded(true);
+            }}
+            disabled={isLoading}
+            title={session.notes ? "Edit notes" : "Add notes"}
+            className="rounded-lg p-2 text-stone-300 transition-all duration-200 hover:bg-stone-50 hover:text-stone-500 disabled:opacity-40 dark:text-stone-600 dark:hover:bg-surface-700 dark:hover:text-stone-400"
+          >
+            <svg
+              className="h-3.5 w-3.5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={1.5}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z"
+              />
+            </svg>
+          </button>
+
           {/* Copy Links */}
           <button
             onClick={() => onCopyLinks(session)}
@@ -233,6 +467,70 @@ export const SessionCard: React.FC<SessionCardProps> = ({
             </svg>
           </button>
 
+          {/* Remove Duplicates */}
+          <button
+            onClick={() => onRemoveDuplicates(session.id)}
+            disabled={isLoading}
+            title="Remove duplicate tabs"
+            className="rounded-lg p-2 text-stone-300 transition-all duration-200 hover:bg-stone-50 hover:text-stone-500 disabled:opacity-40 dark:text-stone-600 dark:hover:bg-surface-700 dark:hover:text-stone-400"
+          >
+            <svg
+              className="h-3.5 w-3.5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={1.5}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M16.5 8.25V6a2.25 2.25 0 00-2.25-2.25H6A2.25 2.25 0 003.75 6v8.25A2.25 2.25 0 006 16.5h2.25m8.25-8.25H18a2.25 2.25 0 012.25 2.25V18A2.25 2.25 0 0118 20.25h-7.5A2.25 2.25 0 018.25 18v-1.5m8.25-8.25h-6a2.25 2.25 0 00-2.25 2.25v6"
+              />
+            </svg>
+          </button>
+
+          {/* Switch Workspace - make this window follow the session */}
+          {!currentWorkspace && (
+            <button
+              onClick={() => onSwitchWorkspace(session.id)}
+              disabled={isLoading}
+              title={live ? "Go to its window" : "Switch this window to this session"}
+              className="rounded-lg p-2 text-stone-300 transition-all duration-200 hover:bg-stone-50 hover:text-stone-500 disabled:opacity-40 dark:text-stone-600 dark:hover:bg-surface-700 dark:hover:text-stone-400"
+            >
+              {switching ? (
+                <svg className="h-3.5 w-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+                  />
+                </svg>
+              ) : (
+                <svg
+                  className="h-3.5 w-3.5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5"
+                  />
+                </svg>
+              )}
+            </button>
+          )}
+
           {/* Restore - warm accent color */}
           <button
             onClick={() => onRestore(session.id)}
@@ -273,11 +571,51 @@ export const SessionCard: React.FC<SessionCardProps> = ({
             )}
           </button>
 
+          {/* Archive - out of the list, not deleted */}
+          <button
+            onClick={() => onArchive(session.id)}
+            disabled={isLoading}
+            title="Archive session"
+            className="rounded-lg p-2 text-stone-300 transition-all duration-200 hover:bg-stone-50 hover:text-stone-500 disabled:opacity-40 dark:text-stone-600 dark:hover:bg-surface-700 dark:hover:text-stone-400"
+          >
+            {archiving ? (
+              <svg className="h-3.5 w-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+                />
+              </svg>
+            ) : (
+              <svg
+                className="h-3.5 w-3.5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={1.5}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5m8.25 3v6.75m0 0l-3-3m3 3l3-3M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z"
+                />
+              </svg>
+            )}
+          </button>
+
           {/* Delete - gentle, not aggressive */}
           <button
             onClick={() => onDelete(session.id)}
             disabled={isLoading}
-            title="Remove session"
+            title="Move to trash"
             className="rounded-lg p-2 text-stone-300 transition-all duration-200 hover:bg-rose-50 hover:text-rose-500 disabled:opacity-40 dark:text-stone-600 dark:hover:bg-rose-900/15 dark:hover:text-rose-400"
           >
             {deleting ? (
@@ -318,8 +656,47 @@ export const SessionCard: React.FC<SessionCardProps> = ({
       {/* Expanded Content - Tabs List */}
       {isExpanded && (
         <div className="border-t border-stone-50 px-4 pb-3 pt-0 dark:border-surface-800">
+          {/* Notes - click to edit */}
+          {editingNotes ? (
+            <div className="pt-3">
+              <NotesEditor
+                notes={session.notes ?? ""}
+                onSave={(notes) => {
+                  onSetNotes(session.id, notes);
+                  setEditingNotes(false);
+                }}
+                onClose={() => setEditingNotes(false)}
+                saving={savingNotes}
+              />
+            </div>
+          ) : (
+            session.notes && (
+              <div
+                className="-mx-2 mt-2 cursor-text rounded-lg px-2 py-1.5 hover:bg-stone-50 dark:hover:bg-surface-800"
+                onClick={() => setEditingNotes(true)}
+                title="Click to edit notes"
+              >
+                <MarkdownText text={session.notes} terms={highlightTerms} />
+              </div>
+            )
+          )}
           {session.groups.map((group) => (
-            <GroupView key={group.id} group={group} searchQuery={searchQuery} />
+            <GroupView
+              key={group.id}
+              group={group}
+              matchingTabIndexes={matchingTabs ? (matchingTabs.get(group.id) ?? []) : undefined}
+              highlightTerms={highlightTerms}
+              sessionId={session.id}
+              moveTargets={moveTargets}
+              onOpenTab={onOpenTab}
+              onUpdateTab={onUpdateTab}
+              onDeleteTab={onDeleteTab}
+              onMoveTab={onMoveTab}
+              onDropTab={onDropTab}
+              onDropGroup={(groupId) => onDropGroup(session.id, groupId, group.id)}
+              onToggleSelect={selecting ? () => onToggleGroup(session.id, group.id) : undefined}
+              selected={selectedGroupIds.includes(group.id)}
+            />
           ))}
         </div>
       )}
@@ -7,45 +7,192 @@
  * - Adequate spacing so sessions don't feel cramped
  */
 
-import React from "react";
-import type { Session } from "@shared/types";
+import React, { useState, useMemo } from "react";
+import type { Session, SessionSortOrder, TabLocation, Tag, TagUsage } from "@shared/types";
+import { MAX_SESSION_NAME_LENGTH } from "@shared/constants";
+import {
+  buildSearchIndex,
+  getHighlightTerms,
+  isEmptySearchQuery,
+  parseSearchQuery,
+  searchSessions,
+} from "@shared/search";
+import { SESSION_SORT_ORDERS, sortSessions } from "@shared/sessionSort";
 import SessionCard from "./SessionCard";
+import SelectionBar from "./SelectionBar";
+import type { TabMoveTarget, TabDropTarget } from "./TabItem";
 
 interface SessionListProps {
   sessions: Session[];
   searchQuery?: string;
+  /** Only show sessions carrying this tag */
+  tagFilter?: string | null;
+  /** Every tag in use */
+  tags: TagUsage[];
+  sortOrder: SessionSortOrder;
+  onSortChange: (sortOrder: SessionSortOrder) => void;
   onRestore: (sessionId: string) => void;
   onDelete: (sessionId: string) => void;
+  onArchive: (sessionId: string) => void;
   onRename: (sessionId: string, newName: string) => void;
+  onSetTags: (sessionId: string, tags: Tag[]) => void;
+  onSetNotes: (sessionId: string, notes: string) => void;
+  onTogglePin: (sessionId: string, pinned: boolean) => void;
   onCopyLinks: (session: Session) => void;
+  onRemoveDuplicates: (sessionId: string) => void;
+  onSwitchWorkspace: (sessionId: string) => void;
+  onStopSync: (sessionId: string) => void;
+  onOpenTab: (location: TabLocation) => void;
+  onUpdateTab: (
+    location: TabLocation,
+    updates: { title: string; url: string; note: string }
+  ) => void;
+  onDeleteTab: (location: TabLocation) => void;
+  onMoveTab: (from: TabLocation, target: TabMoveTarget) => void;
+  onDropTab: (from: TabLocation, to: TabDropTarget) => void;
+  onDropGroup: (sessionId: string, groupId: string, beforeGroupId: string) => void;
+  onDropSession: (sessionId: string, beforeSessionId: string) => void;
+  onMergeSessions: (sessionIds: string[], dedupe: boolean) => Promise<void>;
+  onSplitSession: (sessionId: string, groupIds: string[], name: string) => Promise<void>;
   restoringId: string | null;
   deletingId: string | null;
+  archivingId: string | null;
   renamingId: string | null;
+  taggingId: string | null;
+  savingNotesId: string | null;
+  dedupingId: string | null;
+  switchingId: string | null;
+  /** Sessions kept in sync with an open window */
+  liveSessionIds: string[];
+  /** Session kept in sync with the current window, if any */
+  currentWorkspaceId: string | null;
 }
 
 export const SessionList: React.FC<SessionListProps> = ({
   sessions,
   searchQuery = "",
+  tagFilter = null,
+  tags,
+  sortOrder,
+  onSortChange,
   onRestore,
   onDelete,
+  onArchive,
   onRename,
+  onSetTags,
+  onSetNotes,
+  onTogglePin,
   onCopyLinks,
+  onRemoveDuplicates,
+  onSwitchWorkspace,
+  onStopSync,
+  onOpenTab,
+  onUpdateTab,
+  onDeleteTab,
+  onMoveTab,
+  onDropTab,
+  onDropGroup,
+  onDropSession,
+  onMergeSessions,
+  onSplitSession,
   restoringId,
   deletingId,
+  archivingId,
   renamingId,
+  taggingId,
+  savingNotesId,
+  dedupingId,
+  switchingId,
+  liveSessionIds,
+  currentWorkspaceId,
 }) => {
-  // Filter sessions by search query
-  const filteredSessions = searchQuery
-    ? sessions.filter((session) =>
-        session.groups.some((group) =>
-          group.tabs.some(
-            (tab) =>
-              tab.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              tab.domain.toLowerCase().includes(searchQuery.toLowerCase())
-          )
-        )
+  // Pinned first, then the chosen order; search results keep it
+  const sortedSessions = useMemo(() => sortSessions(sessions, sortOrder), [sessions, sortOrder]);
+
+  // Search names, groups, titles and URLs; the index is built once per session list
+  const searchIndex = useMemo(() => buildSearchIndex(sortedSessions), [sortedSessions]);
+  const query = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchResults = useMemo(
+    () => (isEmptySearchQuery(query) ? null : searchSessions(searchIndex, query)),
+    [searchIndex, query]
+  );
+  const searchResultsById = new Map(searchResults?.map((result) => [result.session.id, result]));
+  const filteredSessions = (
+    searchResults ? searchResults.map((result) => result.session) : sortedSessions
+  ).filter((session) => !tagFilter || session.tags?.includes(tagFilter));
+  const highlightTerms = getHighlightTerms(query);
+
+  // Any group in any session can receive a moved tab
+  const moveTargets: TabMoveTarget[] = sessions.flatMap((session) =>
+    session.groups.map((group) => ({
+      sessionId: session.id,
+      sessionName: session.name,
+      groupId: group.id,
+      groupName: group.name,
+    }))
+  );
+
+  // Multi-select for merging sessions and splitting off groups
+  const [selecting, setSelecting] = useState(false);
+  const [selectionBusy, setSelectionBusy] = useState(false);
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [selectedGroups, setSelectedGroups] = useState<{ sessionId: string; groupId: string }[]>(
+    []
+  );
+
+  // Keep the list order, and forget sessions that are gone
+  const selectedSessions = sortedSessions.filter((s) => selectedSessionIds.includes(s.id));
+  const groupSessionIds = new Set(selectedGroups.map((g) => g.sessionId));
+  const splitSource =
+    groupSessionIds.size === 1 ? sessions.find((s) => groupSessionIds.has(s.id)) : undefined;
+  const canSplit = !!splitSource && selectedGroups.length < splitSource.groups.length;
+
+  const toggleSession = (sessionId: string) =>
+    setSelectedSessionIds((ids) =>
+      ids.includes(sessionId) ? ids.filter((id) => id !== sessionId) : [...ids, sessionId]
+    );
+
+  const toggleGroup = (sessionId: string, groupId: string) =>
+    setSelectedGroups((groups) =>
+      groups.some((g) => g.sessionId === sessionId && g.groupId === groupId)
+        ? groups.filter((g) => g.sessionId !== sessionId || g.groupId !== groupId)
+        : [...groups, { sessionId, groupId }]
+    );
+
+  const endSelection = () => {
+    setSelecting(false);
+    setSelectedSessionIds([]);
+    setSelectedGroups([]);
+  };
+
+  const runSelectionAction = async (action: () => Promise<void>) => {
+    setSelectionBusy(true);
+    try {
+      await action();
+    } finally {
+      setSelectionBusy(false);
+      endSelection();
+    }
+  };
+
+  const handleMerge = (dedupe: boolean) =>
+    runSelectionAction(() =>
+      onMergeSessions(
+        selectedSessions.map((s) => s.id),
+        dedupe
       )
-    : sessions;
+    );
+
+  const handleSplit = () => {
+    if (!splitSource) return;
+    runSelectionAction(() =>
+      onSplitSession(
+        splitSource.id,
+        selectedGroups.map((g) => g.groupId),
+        `${splitSource.name} (split)`.slice(0, MAX_SESSION_NAME_LENGTH)
+      )
+    );
+  };
 
   // Empty state - hopeful, not sad
   if (sessions.length === 0) {
@@ -75,30 +222,102 @@ export const SessionList: React.FC<SessionListProps> = ({
   }
 
   // No search results
-  if (filteredSessions.length === 0 && searchQuery) {
+  if (filteredSessions.length === 0 && (searchResults || tagFilter)) {
     return (
       <div className="py-12 text-center">
-        <p className="text-sm text-stone-500 dark:text-stone-400">No matches for "{searchQuery}"</p>
+        <p className="text-sm text-stone-500 dark:text-stone-400">
+          {searchResults
+            ? `No matches for "${searchQuery}"${tagFilter ? ` tagged "${tagFilter}"` : ""}`
+            : `No sessions tagged "${tagFilter}"`}
+        </p>
       </div>
     );
   }
 
   return (
-    <div className="space-y-2.5">
-      {filteredSessions.map((session) => (
-        <SessionCard
-          key={session.id}
-          session={session}
-          searchQuery={searchQuery}
-          onRestore={onRestore}
-          onDelete={onDelete}
-          onRename={onRename}
-          onCopyLinks={onCopyLinks}
-          restoring={restoringId === session.id}
-          deleting={deletingId === session.id}
-          renaming={renamingId === session.id}
+    <div>
+      {selecting ? (
+        <SelectionBar
+          sessionCount={selectedSessions.length}
+          groupCount={selectedGroups.length}
+          canSplit={canSplit}
+          onMerge={handleMerge}
+          onSplit={handleSplit}
+          onDone={endSelection}
+          busy={selectionBusy}
         />
-      ))}
+      ) : (
+        sessions.length > 1 && (
+          <div className="-mt-1 mb-1.5 flex items-center justify-between">
+            <select
+              value={sortOrder}
+              onChange={(e) => onSortChange(e.target.value as SessionSortOrder)}
+              aria-label="Sort sessions"
+              className="cursor-pointer rounded bg-transparent text-[11px] text-stone-400 transition-colors duration-150 hover:text-stone-600 focus:outline-none dark:text-stone-500 dark:hover:text-stone-300"
+            >
+              {SESSION_SORT_ORDERS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setSelecting(true)}
+              className="text-[11px] text-stone-400 transition-colors duration-150 hover:text-stone-600 dark:text-stone-500 dark:hover:text-stone-300"
+            >
+              Select to merge or split
+            </button>
+          </div>
+        )
+      )}
+
+      <div className="space-y-2.5">
+        {filteredSessions.map((session) => (
+          <SessionCard
+            key={session.id}
+            session={session}
+            searchResult={searchResultsById.get(session.id)}
+            highlightTerms={highlightTerms}
+            onRestore={onRestore}
+            onDelete={onDelete}
+            onArchive={onArchive}
+            onRename={onRename}
+            onSetTags={onSetTags}
+            onSetNotes={onSetNotes}
+            onTogglePin={onTogglePin}
+            onCopyLinks={onCopyLinks}
+            onRemoveDuplicates={onRemoveDuplicates}
+            onSwitchWorkspace={onSwitchWorkspace}
+            onStopSync={onStopSync}
+            onOpenTab={onOpenTab}
+            onUpdateTab={onUpdateTab}
+            onDeleteTab={onDeleteTab}
+            onMoveTab={onMoveTab}
+            onDropTab={onDropTab}
+            onDropGroup={onDropGroup}
+            onDropSession={sortOrder === "custom" ? onDropSession : undefined}
+            moveTargets={moveTargets}
+            allTags={tags}
+            restoring={restoringId === session.id}
+            deleting={deletingId === session.id}
+            archiving={archivingId === session.id}
+            renaming={renamingId === session.id}
+            tagging={taggingId === session.id}
+            savingNotes={savingNotesId === session.id}
+            deduping={dedupingId === session.id}
+            switching={switchingId === session.id}
+            live={liveSessionIds.includes(session.id)}
+            currentWorkspace={currentWorkspaceId === session.id}
+            selecting={selecting}
+            selected={selectedSessionIds.includes(session.id)}
+            selectedGroupIds={selectedGroups
+              .filter((g) => g.sessionId === session.id)
+              .map((g) => g.groupId)}
+            onToggleSelect={toggleSession}
+            onToggleGroup={toggleGroup}
+          />
+        ))}
+      </div>
     </div>
   );
 };
@@ -7,25 +7,180 @@
  * - Subtle hover for discoverability
  */
 
-import React from "react";
-import type { TabSnapshot } from "@shared/types";
+import React, { useState } from "react";
+import type { TabLocation, TabSnapshot } from "@shared/types";
+import { MAX_TAB_NOTE_LENGTH } from "@shared/constants";
+import { getDragProps, useDropTarget } from "../hooks";
+import HighlightedText from "./HighlightedText";
+
+/**
+ * A group a tab can be moved to.
+ */
+export interface TabMoveTarget {
+  sessionId: string;
+  sessionName: string;
+  groupId: string;
+  groupName: string;
+}
+
+/**
+ * Where a dragged tab is dropped. Without an index it goes to the end of the group.
+ */
+export interface TabDropTarget {
+  sessionId: string;
+  groupId: string;
+  /** Tab to insert before */
+  index?: number;
+}
 
 interface TabItemProps {
   tab: TabSnapshot;
   highlighted?: boolean;
+  /** Search terms to mark in the title, note and domain (or URL, if only it matches) */
+  highlightTerms?: string[];
+  /** Where the tab is saved (makes it draggable) */
+  location?: TabLocation;
+  /** Groups this tab can be moved to (excluding its own) */
+  moveTargets?: TabMoveTarget[];
+  onOpen?: () => void;
+  onUpdate?: (updates: { title: string; url: string; note: string }) => void;
+  onDelete?: () => void;
+  onMove?: (target: TabMoveTarget) => void;
+  /** Another tab was dropped on this one, to go before it */
+  onDropTab?: (from: TabLocation) => void;
 }
 
-export const TabItem: React.FC<TabItemProps> = ({ tab, highlighted = false }) => {
+const iconButtonClass =
+  "rounded p-1 text-stone-300 transition-colors duration-150 hover:bg-stone-100 hover:text-stone-500 dark:text-stone-600 dark:hover:bg-surface-700 dark:hover:text-stone-400";
+
+const inputClass =
+  "dark:border-surface-600 w-full rounded border border-stone-200 bg-white px-2 py-0.5 text-[12px] text-stone-700 focus:outline-none focus:ring-2 focus:ring-primary-500/30 dark:bg-surface-800 dark:text-stone-200";
+
+export const TabItem: React.FC<TabItemProps> = ({
+  tab,
+  highlighted = false,
+  highlightTerms = [],
+  location,
+  moveTargets = [],
+  onOpen,
+  onUpdate,
+  onDelete,
+  onMove,
+  onDropTab,
+}) => {
+  const [mode, setMode] = useState<"view" | "edit" | "move">("view");
+  const [title, setTitle] = useState(tab.title);
+  const [url, setUrl] = useState(tab.url);
+  const [note, setNote] = useState(tab.note ?? "");
+  const { isOver, dropProps } = useDropTarget({ tab: onDropTab });
+
   // Default favicon if none available
   const faviconUrl = tab.favicon || `https://www.google.com/s2/favicons?domain=${tab.domain}&sz=32`;
 
+  // Show the full URL when a search term only matches there
+  const showUrl = highlightTerms.some(
+    (term) =>
+      tab.url.toLowerCase().includes(term) &&
+      !tab.title.toLowerCase().includes(term) &&
+      !tab.domain.toLowerCase().includes(term)
+  );
+
+  const startEdit = () => {
+    setTitle(tab.title);
+    setUrl(tab.url);
+    setNote(tab.note ?? "");
+    setMode("edit");
+  };
+
+  const handleSave = () => {
+    const trimmedTitle = title.trim();
+    const trimmedUrl = url.trim();
+    const trimmedNote = note.trim();
+    if (
+      trimmedTitle &&
+      trimmedUrl &&
+      (trimmedTitle !== tab.title || trimmedUrl !== tab.url || trimmedNote !== (tab.note ?? ""))
+    ) {
+      onUpdate?.({ title: trimmedTitle, url: trimmedUrl, note: trimmedNote });
+    }
+    setMode("view");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMode("view");
+    }
+  };
+
+  const handleMove = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = moveTargets[Number(e.target.value)];
+    if (target) onMove?.(target);
+    setMode("view");
+  };
+
+  // Edit mode - title, URL and note inputs
+  if (mode === "edit") {
+    return (
+      <div className="space-y-1 rounded-lg bg-stone-50 px-2 py-1.5 dark:bg-surface-800">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={handleKeyDown}
+          aria-label="Tab title"
+          className={inputClass}
+          autoFocus
+        />
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={handleKeyDown}
+          aria-label="Tab URL"
+          className={`${inputClass} font-mono`}
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={handleKeyDown}
+          maxLength={MAX_TAB_NOTE_LENGTH}
+          placeholder="Note, e.g. read section 3"
+          aria-label="Tab note"
+          className={inputClass}
+        />
+        <div className="flex justify-end gap-2 text-[11px]">
+          <button
+            onClick={() => setMode("view")}
+            className="text-stone-400 hover:text-stone-600 dark:hover:text-stone-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!title.trim() || !url.trim()}
+            className="font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50 dark:text-primary-400"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
-      className={`flex items-center gap-2.5 rounded-lg px-2 py-1.5 ${
+      {...(location && mode === "view" ? getDragProps("tab", location) : {})}
+      {...dropProps}
+      className={`group/tab flex items-center gap-2.5 rounded-lg px-2 py-1.5 ${
         highlighted
           ? "bg-amber-50 dark:bg-amber-900/10"
           : "hover:bg-stone-50 dark:hover:bg-surface-800"
-      } transition-colors duration-150`}
+      } ${isOver ? "shadow-[inset_0_2px_0_theme(colors.primary.400)]" : ""} transition-colors duration-150`}
     >
       {/* Favicon - rounded */}
       <img
@@ -39,13 +194,114 @@ export const TabItem: React.FC<TabItemProps> = ({ tab, highlighted = false }) =>
         }}
       />
 
-      {/* Title and Domain */}
-      <div className="min-w-0 flex-1 leading-snug">
-        <p className="truncate text-[12px] text-stone-600 dark:text-stone-300" title={tab.title}>
-          {tab.title}
+      {/* Title and Domain - click to open just this tab */}
+      <div
+        className={`min-w-0 flex-1 leading-snug ${onOpen ? "cursor-pointer" : ""}`}
+        onClick={onOpen}
+      >
+        <p
+          className="truncate text-[12px] text-stone-600 dark:text-stone-300"
+          title={onOpen ? `${tab.title} – click to open` : tab.title}
+        >
+          <HighlightedText text={tab.title} terms={highlightTerms} />
         </p>
-        <p className="truncate text-[10px] text-stone-400 dark:text-stone-500">{tab.domain}</p>
+        <p className="truncate text-[10px] text-stone-400 dark:text-stone-500">
+          <HighlightedText text={showUrl ? tab.url : tab.domain} terms={highlightTerms} />
+        </p>
+        {tab.note && (
+          <p
+            className="truncate text-[10px] italic text-amber-700/80 dark:text-amber-400/80"
+            title={tab.note}
+          >
+            <HighlightedText text={tab.note} terms={highlightTerms} />
+          </p>
+        )}
       </div>
+
+      {/* Move target picker */}
+      {mode === "move" ? (
+        <select
+          value=""
+          onChange={handleMove}
+          onBlur={() => setMode("view")}
+          onKeyDown={(e) => e.key === "Escape" && setMode("view")}
+          aria-label="Move tab to"
+          className="dark:border-surface-600 max-w-[140px] rounded border border-stone-200 bg-white py-0.5 text-[11px] text-stone-600 dark:bg-surface-800 dark:text-stone-300"
+          autoFocus
+        >
+          <option value="" disabled>
+            Move to…
+          </option>
+          {moveTargets.map((target, index) => (
+            <option key={`${target.sessionId}-${target.groupId}`} value={index}>
+              {target.sessionName} › {target.groupName}
+            </option>
+          ))}
+        </select>
+      ) : (
+        /* Tab actions - revealed on hover */
+        <div className="flex flex-shrink-0 items-center opacity-0 transition-opacity duration-150 group-hover/tab:opacity-100">
+          {onUpdate && (
+            <button
+              onClick={startEdit}
+              title="Edit title, URL and note"
+              className={iconButtonClass}
+            >
+              <svg
+                className="h-3 w-3"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={1.5}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931z"
+                />
+              </svg>
+            </button>
+          )}
+          {onMove && moveTargets.length > 0 && (
+            <button
+              onClick={() => setMode("move")}
+              title="Move to another group"
+              className={iconButtonClass}
+            >
+              <svg
+                className="h-3 w-3"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={1.5}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M13.5 4.5L21 12m0 0l-7.5 7.5M21 12H3"
+                />
+              </svg>
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              title="Remove tab"
+              className={`${iconButtonClass} hover:text-rose-500 dark:hover:text-rose-400`}
+            >
+              <svg
+                className="h-3 w-3"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={1.5}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,85 @@
+/**
+ * TabFlow – Tab Picker Component
+ *
+ * Checklist of the current window's tabs, used to choose
+ * exactly which tabs go into a session before saving.
+ */
+
+import React from "react";
+import type { WindowTab } from "@shared/messages";
+
+interface TabPickerProps {
+  tabs: WindowTab[];
+  selected: Set<number>;
+  onChange: (selected: Set<number>) => void;
+  disabled?: boolean;
+}
+
+export const TabPicker: React.FC<TabPickerProps> = ({ tabs, selected, onChange, disabled }) => {
+  const allSelected = tabs.length > 0 && selected.size === tabs.length;
+
+  const toggleTab = (tabId: number) => {
+    const next = new Set(selected);
+    if (next.has(tabId)) {
+      next.delete(tabId);
+    } else {
+      next.add(tabId);
+    }
+    onChange(next);
+  };
+
+  const toggleAll = () => {
+    onChange(allSelected ? new Set() : new Set(tabs.map((tab) => tab.tabId)));
+  };
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between px-1">
+        <span className="text-[11px] text-muted-foreground">
+          {selected.size} of {tabs.length} selected
+        </span>
+        <button
+          type="button"
+          onClick={toggleAll}
+          disabled={disabled || tabs.length === 0}
+          className="text-[11px] font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50 dark:text-primary-400"
+        >
+          {allSelected ? "Select none" : "Select all"}
+        </button>
+      </div>
+
+      <div className="max-h-56 space-y-0.5 overflow-y-auto rounded-xl bg-secondary p-1">
+        {tabs.map((tab) => (
+          <label
+            key={tab.tabId}
+            className="flex cursor-pointer items-center gap-2.5 rounded-lg px-2 py-1.5 transition-colors duration-150 hover:bg-stone-50 dark:hover:bg-surface-800"
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(tab.tabId)}
+              onChange={() => toggleTab(tab.tabId)}
+              disabled={disabled}
+              className="h-3.5 w-3.5 flex-shrink-0 accent-primary-500"
+            />
+            {tab.favicon && (
+              <img src={tab.favicon} alt="" className="h-4 w-4 flex-shrink-0 rounded" />
+            )}
+            <div className="min-w-0 flex-1 leading-snug">
+              <p
+                className="truncate text-[12px] text-stone-600 dark:text-stone-300"
+                title={tab.title}
+              >
+                {tab.title}
+              </p>
+              <p className="truncate text-[10px] text-stone-400 dark:text-stone-500">
+                {tab.domain}
+              </p>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TabPicker;
@@ -0,0 +1,96 @@
+/**
+ * TabFlow – Tag Chip Component
+ *
+ * Design philosophy:
+ * - Tags are quiet labels, not badges competing with the session name
+ * - The color dot carries the meaning; the chip itself stays neutral
+ */
+
+import React from "react";
+import type { Tag } from "@shared/types";
+import { GROUP_COLOR_CLASSES } from "./GroupView";
+
+interface TagChipProps {
+  tag: Tag;
+  /** Number of sessions carrying the tag, shown after its name */
+  count?: number;
+  /** Highlighted, e.g. the active filter */
+  active?: boolean;
+  onClick?: () => void;
+  /** Clicking the dot changes the color */
+  onColorClick?: () => void;
+  /** Show a remove button */
+  onRemove?: () => void;
+}
+
+export const TagChip: React.FC<TagChipProps> = ({
+  tag,
+  count,
+  active = false,
+  onClick,
+  onColorClick,
+  onRemove,
+}) => {
+  const dot = (
+    <span className={`h-1.5 w-1.5 flex-shrink-0 rounded-full ${GROUP_COLOR_CLASSES[tag.color]}`} />
+  );
+
+  const content = (
+    <>
+      {onColorClick ? (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onColorClick();
+          }}
+          title="Change color"
+          className="-m-1 rounded-full p-1 hover:bg-stone-200 dark:hover:bg-surface-700"
+        >
+          {dot}
+        </button>
+      ) : (
+        dot
+      )}
+      <span className="max-w-[120px] truncate">{tag.name}</span>
+      {count !== undefined && <span className="text-stone-400 dark:text-stone-500">{count}</span>}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          title={`Remove ${tag.name}`}
+          aria-label={`Remove ${tag.name}`}
+          className="-mr-0.5 text-stone-400 hover:text-stone-600 dark:text-stone-500 dark:hover:text-stone-300"
+        >
+          ×
+        </button>
+      )}
+    </>
+  );
+
+  const className = `inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] leading-4 transition-colors duration-200 ${
+    active
+      ? "border-primary-300 bg-primary-50 text-primary-700 dark:border-primary-700 dark:bg-primary-900/20 dark:text-primary-300"
+      : "border-stone-200 bg-stone-50 text-stone-600 dark:border-surface-700 dark:bg-surface-800 dark:text-stone-300"
+  }`;
+
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        aria-pressed={active}
+        className={`${className} hover:border-stone-300 dark:hover:border-stone-600`}
+      >
+        {content}
+      </button>
+    );
+  }
+
+  return <span className={className}>{content}</span>;
+};
+
+export default TagChip;
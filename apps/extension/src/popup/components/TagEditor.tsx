@@ -0,0 +1,145 @@
+/**
+ * TabFlow – Tag Editor Component
+ *
+ * Design philosophy:
+ * - Tagging should take one keystroke per tag
+ * - Suggest tags already in use so spellings stay consistent
+ * - Nothing is saved until the user is done, so it's one undo step
+ */
+
+import React, { useState, useRef, useEffect } from "react";
+import type { Tag, TagUsage } from "@shared/types";
+import { GROUP_COLORS, MAX_TAG_NAME_LENGTH } from "@shared/constants";
+import TagChip from "./TagChip";
+
+interface TagEditorProps {
+  sessionId: string;
+  /** The session's current tags */
+  tags: Tag[];
+  /** Every tag in use, for suggestions and colors */
+  allTags: TagUsage[];
+  onSave: (tags: Tag[]) => void;
+  onClose: () => void;
+  saving: boolean;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({
+  sessionId,
+  tags: initialTags,
+  allTags,
+  onSave,
+  onClose,
+  saving,
+}) => {
+  const [tags, setTags] = useState(initialTags);
+  const [input, setInput] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listId = `tag-suggestions-${sessionId}`;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const nextColor = (color: Tag["color"]) =>
+    GROUP_COLORS[(GROUP_COLORS.indexOf(color) + 1) % GROUP_COLORS.length];
+
+  /**
+   * The tags with the typed text added, if it names a tag not already there.
+   * Known tags keep their color; new ones take the next color in the palette.
+   */
+  const withInput = (): Tag[] => {
+    const name = input.trim().slice(0, MAX_TAG_NAME_LENGTH);
+    const key = name.toLowerCase();
+    if (!name || tags.some((tag) => tag.name.toLowerCase() === key)) return tags;
+
+    const existing = allTags.find((tag) => tag.name.toLowerCase() === key);
+    const color =
+      existing?.color ?? GROUP_COLORS[(allTags.length + tags.length) % GROUP_COLORS.length];
+    return [...tags, { name: existing?.name ?? name, color }];
+  };
+
+  const handleAdd = () => {
+    setTags(withInput());
+    setInput("");
+  };
+
+  const handleDone = () => {
+    // Text typed but not yet added counts as a tag
+    const finalTags = withInput();
+    const unchanged =
+      finalTags.length === initialTags.length &&
+      finalTags.every(
+        (tag, i) => tag.name === initialTags[i].name && tag.color === initialTags[i].color
+      );
+
+    if (unchanged) {
+      onClose();
+    } else {
+      onSave(finalTags);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (input.trim()) {
+        handleAdd();
+      } else {
+        handleDone();
+      }
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === "Backspace" && !input && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    }
+  };
+
+  const suggestions = allTags.filter(
+    (tag) => !tags.some((t) => t.name.toLowerCase() === tag.name.toLowerCase())
+  );
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.name}
+          tag={tag}
+          onColorClick={() =>
+            setTags(tags.map((t) => (t === tag ? { ...t, color: nextColor(t.color) } : t)))
+          }
+          onRemove={() => setTags(tags.filter((t) => t !== tag))}
+        />
+      ))}
+      <input
+        ref={inputRef}
+        type="text"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        list={listId}
+        disabled={saving}
+        maxLength={MAX_TAG_NAME_LENGTH}
+        placeholder={tags.length > 0 ? "Add tag…" : "Add a tag, then Enter…"}
+        aria-label="Add tag"
+        className="min-w-[96px] flex-1 rounded-lg border border-stone-200 bg-white px-2 py-0.5 text-xs text-stone-700 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-primary-500/30 dark:border-surface-700 dark:bg-surface-800 dark:text-stone-200 dark:placeholder:text-stone-500 dark:focus:ring-primary-400/30"
+      />
+      <datalist id={listId}>
+        {suggestions.map((tag) => (
+          <option key={tag.name} value={tag.name} />
+        ))}
+      </datalist>
+      <button
+        type="button"
+        onClick={handleDone}
+        disabled={saving}
+        className="rounded-lg px-2 py-0.5 text-xs font-medium text-primary-600 hover:bg-primary-50 disabled:opacity-40 dark:text-primary-400 dark:hover:bg-primary-900/20"
+      >
+        {saving ? "Saving…" : "Done"}
+      </button>
+    </div>
+  );
+};
+
+export default TagEditor;
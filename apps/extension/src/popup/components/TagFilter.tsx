@@ -0,0 +1,40 @@
+/**
+ * TabFlow – Tag Filter Component
+ *
+ * Design philosophy:
+ * - One tap narrows the list to a project; another tap brings everything back
+ * - Counts hint at where sessions live without opening anything
+ */
+
+import React from "react";
+import type { TagUsage } from "@shared/types";
+import TagChip from "./TagChip";
+
+interface TagFilterProps {
+  tags: TagUsage[];
+  /** Name of the tag the list is filtered to, if any */
+  activeTag: string | null;
+  onChange: (tag: string | null) => void;
+}
+
+export const TagFilter: React.FC<TagFilterProps> = ({ tags, activeTag, onChange }) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-1.5" role="group" aria-label="Filter by tag">
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.name}
+          tag={tag}
+          count={tag.sessionCount}
+          active={tag.name === activeTag}
+          onClick={() => onChange(tag.name === activeTag ? null : tag.name)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TagFilter;
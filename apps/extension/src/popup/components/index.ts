@@ -3,13 +3,23 @@
  */
 
 export { ActionBar } from "./ActionBar";
+export { AddToSessionModal } from "./AddToSessionModal";
 export { ConfirmDialog } from "./ConfirmDialog";
 export { ErrorToast } from "./ErrorToast";
 export { GroupView } from "./GroupView";
+export { HighlightedText } from "./HighlightedText";
 export { LoadingState } from "./LoadingState";
+export { MarkdownText } from "./MarkdownText";
+export { NotesEditor } from "./NotesEditor";
+export { RecoveryBanner } from "./RecoveryBanner";
 export { SaveModal } from "./SaveModal";
 export { SearchBar } from "./SearchBar";
+export { SelectionBar } from "./SelectionBar";
 export { SessionCard } from "./SessionCard";
 export { SessionList } from "./SessionList";
 export { SuccessToast } from "./SuccessToast";
+export { TagChip } from "./TagChip";
+export { TagEditor } from "./TagEditor";
+export { TagFilter } from "./TagFilter";
+export { TabPicker } from "./TabPicker";
 export { TabItem } from "./TabItem";
@@ -4,3 +4,4 @@
 
 export { sendMessage, useMessageAction } from "./useMessage";
 export { useSessions } from "./useSessions";
+export { getDragProps, useDropTarget, type DragData, type DragKind } from "./useDragAndDrop";
@@ -0,0 +1,109 @@
+/**
+ * TabFlow – Drag and Drop Hooks
+ *
+ * Native HTML5 drag and drop for reordering sessions, groups and tabs.
+ * Each kind of item uses its own MIME type, so drop targets can tell what
+ * is being dragged during dragover (when the data itself isn't readable).
+ */
+
+import { useState, useCallback } from "react";
+import type React from "react";
+import type { TabLocation } from "@shared/types";
+
+const DRAG_TYPES = {
+  session: "application/x-tabflow-session",
+  group: "application/x-tabflow-group",
+  tab: "application/x-tabflow-tab",
+} as const;
+
+/**
+ * Data carried by each kind of draggable item.
+ */
+export interface DragData {
+  session: { sessionId: string };
+  group: { sessionId: string; groupId: string };
+  tab: TabLocation;
+}
+
+export type DragKind = keyof DragData;
+
+type DropHandlers = { [K in DragKind]?: (data: DragData[K]) => void };
+
+/**
+ * Props that make an element draggable as the given kind of item.
+ *
+ * @example
+ * <div {...getDragProps("tab", location)}>...</div>
+ */
+export function getDragProps<K extends DragKind>(
+  kind: K,
+  data: DragData[K]
+): Pick<React.HTMLAttributes<HTMLElement>, "draggable" | "onDragStart"> {
+  return {
+    draggable: true,
+    onDragStart: (e) => {
+      // Nested draggables (tab inside group inside session) must not overwrite the data
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData(DRAG_TYPES[kind], JSON.stringify(data));
+    },
+  };
+}
+
+/**
+ * Hook that turns an element into a drop target for some kinds of items.
+ * Kinds without a handler bubble up to outer drop targets.
+ *
+ * @example
+ * const { isOver, dropProps } = useDropTarget({ tab: (from) => onDropTab(from) });
+ * <div {...dropProps} className={isOver ? "ring-1" : ""}>...</div>
+ */
+export function useDropTarget(handlers: DropHandlers) {
+  const [isOver, setIsOver] = useState(false);
+
+  const getKind = useCallback(
+    (e: React.DragEvent): DragKind | undefined =>
+      (Object.keys(DRAG_TYPES) as DragKind[]).find(
+        (kind) => handlers[kind] && e.dataTransfer.types.includes(DRAG_TYPES[kind])
+      ),
+    [handlers]
+  );
+
+  const onDragOver = useCallback(
+    (e: React.DragEvent) => {
+      if (!getKind(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = "move";
+      setIsOver(true);
+    },
+    [getKind]
+  );
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    // Moving onto a child element is not leaving
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsOver(false);
+    }
+  }, []);
+
+  const onDrop = useCallback(
+    (e: React.DragEvent) => {
+      const kind = getKind(e);
+      setIsOver(false);
+      if (!kind) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      try {
+        const data = JSON.parse(e.dataTransfer.getData(DRAG_TYPES[kind]));
+        (handlers[kind] as (data: DragData[DragKind]) => void)(data);
+      } catch (err) {
+        console.error("[TabFlow] Invalid drop data:", err);
+      }
+    },
+    [getKind, handlers]
+  );
+
+  return { isOver, dropProps: { onDragOver, onDragLeave, onDrop } };
+}
@@ -3,12 +3,14 @@
  * All magic numbers and config values in one place.
  */
 
+import type { GroupColor } from "./types";
+
 // =============================================================================
 // IndexedDB Configuration
 // =============================================================================
 
 export const DB_NAME = "tabflow";
-export const DB_VERSION = 1;
+export const DB_VERSION = 3;
 
 // =============================================================================
 // Storage Limits
@@ -29,6 +31,32 @@ export const MAX_UNDO_DEPTH = 10;
 /** Maximum backups to retain in IndexedDB */
 export const MAX_BACKUPS_RETAINED = 24;
 
+// =============================================================================
+// Group Names
+// =============================================================================
+
+/** Name of the single group used when no native tab groups exist */
+export const DEFAULT_GROUP_NAME = "All Tabs";
+
+/** Name of the group holding tabs outside any native tab group */
+export const UNGROUPED_GROUP_NAME = "Ungrouped";
+
+/** Fallback name for native tab groups without a title */
+export const UNTITLED_GROUP_NAME = "Untitled group";
+
+/** Native tab group colors in Chrome's picker order (also the tag palette) */
+export const GROUP_COLORS: GroupColor[] = [
+  "grey",
+  "blue",
+  "red",
+  "yellow",
+  "green",
+  "pink",
+  "purple",
+  "cyan",
+  "orange",
+];
+
 // =============================================================================
 // Timing Configuration
 // =============================================================================
@@ -36,15 +64,42 @@ export const MAX_BACKUPS_RETAINED = 24;
 /** Default backup interval in minutes */
 export const BACKUP_INTERVAL_MINUTES = 60;
 
+/** How often sessions past the Trash retention period are purged, in minutes */
+export const TRASH_PURGE_INTERVAL_MINUTES = 24 * 60;
+
 /** Debounce delay for undo stack persistence (ms) */
 export const UNDO_PERSIST_DEBOUNCE_MS = 500;
 
+/** Debounce delay for browsing state snapshots after tab changes (ms) */
+export const BROWSING_SNAPSHOT_DEBOUNCE_MS = 2000;
+
+/** Debounce delay for syncing a workspace window into its session (ms) */
+export const WORKSPACE_SYNC_DEBOUNCE_MS = 1000;
+
+/** Debounce delay for rebuilding the context menus after sessions change (ms) */
+export const CONTEXT_MENU_REFRESH_DEBOUNCE_MS = 500;
+
+/** How long a keyboard shortcut's result stays on the toolbar badge (ms) */
+export const BADGE_FEEDBACK_DURATION_MS = 3000;
+
+/** How long after the open-search shortcut the popup still focuses search (ms) */
+export const SEARCH_FOCUS_WINDOW_MS = 5000;
+
 /** Debounce delay for settings save (ms) */
 export const SETTINGS_SAVE_DEBOUNCE_MS = 300;
 
 /** Debounce delay for search input (ms) */
 export const SEARCH_DEBOUNCE_MS = 200;
 
+/** Max wait for a restored tab to finish loading before freeing its slot (ms) */
+export const TAB_LOAD_TIMEOUT_MS = 15000;
+
+/** Max wait for a restored tab to commit its URL before discarding it (ms) */
+export const TAB_DISCARD_WAIT_MS = 5000;
+
+/** URL prefix of Chrome's New Tab page, used for stash placeholder tabs */
+export const NEW_TAB_URL = "chrome://newtab";
+
 // =============================================================================
 // UI Configuration
 // =============================================================================
@@ -61,11 +116,31 @@ export const ERROR_TOAST_DURATION_MS = 5000;
 /** Maximum session name length (characters) */
 export const MAX_SESSION_NAME_LENGTH = 40;
 
+/** Maximum tag name length (characters) */
+export const MAX_TAG_NAME_LENGTH = 20;
+
+/** Maximum session notes length (characters) */
+export const MAX_SESSION_NOTES_LENGTH = 5000;
+
+/** Maximum tab note length (characters) */
+export const MAX_TAB_NOTE_LENGTH = 200;
+
+/** Sessions listed in the "Add this tab/window to" context menus */
+export const MAX_CONTEXT_MENU_SESSIONS = 10;
+
+/** Suggestions shown for the "tf" omnibox keyword */
+export const MAX_OMNIBOX_SUGGESTIONS = 8;
+
 // =============================================================================
 // Alarm Names
 // =============================================================================
 
 export const ALARM_HOURLY_BACKUP = "hourlyBackup";
+export const ALARM_AUTO_SAVE = "autoSave";
+export const ALARM_TRASH_PURGE = "trashPurge";
+
+/** Name given to sessions written by the periodic auto-save */
+export const AUTO_SAVE_SESSION_NAME = "Autosave";
 
 // =============================================================================
 // Cloud Sync Configuration
@@ -73,8 +148,18 @@ export const ALARM_HOURLY_BACKUP = "hourlyBackup";
 
 export const CLOUD_API_BASE_URL = import.meta.env.VITE_CLOUD_API_URL || "http://localhost:3000";
 
-/** Cloud sync schema version */
-export const CLOUD_SYNC_SCHEMA_VERSION = 1;
+/**
+ * Schema version of exported, backed up and synced data (BackupBlob).
+ * v2: TabSnapshot gained optional pinned/muted/active/index fields.
+ * v3: Session gained optional tags; the blob carries tag definitions.
+ *     Later optional fields stay on v3, since older readers can ignore them:
+ *     Session pinned, notes, updatedAt, lastRestoredAt, restoreCount,
+ *     archivedAt and trashedAt; TabSnapshot note.
+ */
+export const BACKUP_SCHEMA_VERSION = 3;
+
+/** Cloud sync schema version (cloud blobs are backups) */
+export const CLOUD_SYNC_SCHEMA_VERSION = BACKUP_SCHEMA_VERSION;
 
 /** Encryption key derivation salt (must match across sessions) */
 export const ENCRYPTION_SALT = "tabflow-v1";
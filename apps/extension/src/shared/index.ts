@@ -7,3 +7,6 @@ export * from "./messages";
 export * from "./constants";
 export * from "./validators";
 export * from "./errorMessages";
+export * from "./urlRules";
+export * from "./search";
+export * from "./sessionSort";
@@ -3,7 +3,20 @@
  * All message types used for communication between popup/options and background.
  */
 
-import type { Session, Settings, UndoEntry, Tier } from "./types";
+import type {
+  Session,
+  TabSnapshot,
+  Settings,
+  UndoEntry,
+  Tier,
+  RestoreMode,
+  CaptureScope,
+  BrowsingSnapshot,
+  WorkspaceBinding,
+  TabLocation,
+  Tag,
+  TagUsage,
+} from "./types";
 
 // =============================================================================
 // Message Action Constants
@@ -18,8 +31,48 @@ export const MessageAction = {
   GET_SESSIONS: "GET_SESSIONS",
   SAVE_SESSION: "SAVE_SESSION",
   RESTORE_SESSION: "RESTORE_SESSION",
+  GET_WINDOW_TABS: "GET_WINDOW_TABS",
   DELETE_SESSION: "DELETE_SESSION",
   RENAME_SESSION: "RENAME_SESSION",
+  DEDUPE_SESSION: "DEDUPE_SESSION",
+  PIN_SESSION: "PIN_SESSION",
+  REORDER_SESSIONS: "REORDER_SESSIONS",
+  REORDER_GROUPS: "REORDER_GROUPS",
+  MERGE_SESSIONS: "MERGE_SESSIONS",
+  SPLIT_SESSION: "SPLIT_SESSION",
+  ADD_TO_SESSION: "ADD_TO_SESSION",
+
+  // Archive and Trash
+  ARCHIVE_SESSION: "ARCHIVE_SESSION",
+  UNARCHIVE_SESSION: "UNARCHIVE_SESSION",
+  GET_ARCHIVED_SESSIONS: "GET_ARCHIVED_SESSIONS",
+  GET_TRASHED_SESSIONS: "GET_TRASHED_SESSIONS",
+  RESTORE_FROM_TRASH: "RESTORE_FROM_TRASH",
+  PURGE_SESSION: "PURGE_SESSION",
+  EMPTY_TRASH: "EMPTY_TRASH",
+
+  // Tags
+  GET_TAGS: "GET_TAGS",
+  SET_SESSION_TAGS: "SET_SESSION_TAGS",
+
+  // Notes
+  SET_SESSION_NOTES: "SET_SESSION_NOTES",
+
+  // Tab operations (within a saved session)
+  OPEN_TAB: "OPEN_TAB",
+  UPDATE_TAB: "UPDATE_TAB",
+  DELETE_TAB: "DELETE_TAB",
+  MOVE_TAB: "MOVE_TAB",
+
+  // Workspaces
+  GET_WORKSPACES: "GET_WORKSPACES",
+  SWITCH_WORKSPACE: "SWITCH_WORKSPACE",
+  UNBIND_WORKSPACE: "UNBIND_WORKSPACE",
+
+  // Crash recovery
+  GET_PREVIOUS_STATE: "GET_PREVIOUS_STATE",
+  RESTORE_PREVIOUS_STATE: "RESTORE_PREVIOUS_STATE",
+  DISMISS_PREVIOUS_STATE: "DISMISS_PREVIOUS_STATE",
 
   // Grouping (AI - Phase 2)
   TRIGGER_AI_GROUP: "TRIGGER_AI_GROUP",
@@ -29,6 +82,9 @@ export const MessageAction = {
   UNDO: "UNDO",
   GET_UNDO_STACK: "GET_UNDO_STACK",
 
+  // Keyboard Shortcuts
+  CONSUME_SEARCH_FOCUS: "CONSUME_SEARCH_FOCUS",
+
   // Settings
   GET_SETTINGS: "GET_SETTINGS",
   UPDATE_SETTINGS: "UPDATE_SETTINGS",
@@ -80,10 +136,24 @@ export interface MessageResponse<T = unknown> {
 
 export interface SaveSessionPayload {
   name?: string;
+  /** Defaults to currentWindow */
+  scope?: CaptureScope;
+  /** Chrome tab IDs to capture (required for the "selected" scope) */
+  tabIds?: number[];
+  /** Close the captured tabs after saving ("stash") */
+  closeTabs?: boolean;
+  /** Skip duplicate tabs (defaults to the dedupeOnSave setting) */
+  dedupe?: boolean;
+  /** Keep the session in sync with the current window (currentWindow scope only) */
+  trackWindow?: boolean;
 }
 
 export interface RestoreSessionPayload {
   sessionId: string;
+  /** Defaults to the restoreMode setting */
+  mode?: RestoreMode;
+  /** Defaults to the lazyRestore setting */
+  lazy?: boolean;
 }
 
 export interface DeleteSessionPayload {
@@ -95,6 +165,113 @@ export interface RenameSessionPayload {
   newName: string;
 }
 
+export interface DedupeSessionPayload {
+  sessionId: string;
+}
+
+export interface MergeSessionsPayload {
+  /** Sessions to merge; the first one receives the others */
+  sessionIds: string[];
+  /** Defaults to the first session's name */
+  name?: string;
+  /** Drop repeated tabs using the duplicate detection setting */
+  dedupe?: boolean;
+}
+
+export interface SplitSessionPayload {
+  sessionId: string;
+  /** Groups to move into the new session */
+  groupIds: string[];
+  /** Name of the new session */
+  name?: string;
+}
+
+/**
+ * What to add to an existing session: the active tab, or every tab in the window.
+ */
+export type AddToSessionScope = "tab" | "window";
+
+export interface AddToSessionPayload {
+  sessionId: string;
+  /** Group receiving the tabs; without one they form a new group */
+  groupId?: string;
+  scope: AddToSessionScope;
+}
+
+export interface SetSessionTagsPayload {
+  sessionId: string;
+  /** The session's full tag list; colors create or update the tag definitions */
+  tags: Tag[];
+}
+
+export interface SetSessionNotesPayload {
+  sessionId: string;
+  /** Markdown; empty removes the notes */
+  notes: string;
+}
+
+export interface PinSessionPayload {
+  sessionId: string;
+  /** Keep the session at the top of the list */
+  pinned: boolean;
+}
+
+export interface ArchiveSessionPayload {
+  sessionId: string;
+}
+
+export interface UnarchiveSessionPayload {
+  sessionId: string;
+}
+
+export interface RestoreFromTrashPayload {
+  sessionId: string;
+}
+
+export interface PurgeSessionPayload {
+  /** A session in the Trash */
+  sessionId: string;
+}
+
+export interface ReorderSessionsPayload {
+  /** Session IDs in the desired list order */
+  sessionIds: string[];
+}
+
+export interface ReorderGroupsPayload {
+  sessionId: string;
+  /** Group IDs in the desired order */
+  groupIds: string[];
+}
+
+export type OpenTabPayload = TabLocation;
+
+export interface UpdateTabPayload extends TabLocation {
+  title?: string;
+  url?: string;
+  /** Empty removes the note */
+  note?: string;
+}
+
+export type DeleteTabPayload = TabLocation;
+
+export interface MoveTabPayload {
+  from: TabLocation;
+  /**
+   * Without a groupId the tab goes to the session's last group; without an
+   * index, to the end of the group. index is the tab to insert before.
+   */
+  to: { sessionId: string; groupId?: string; index?: number };
+}
+
+export interface SwitchWorkspacePayload {
+  sessionId: string;
+}
+
+export interface UnbindWorkspacePayload {
+  sessionId: string;
+}
+
 export interface ImportDataPayload {
   json: string;
 }
@@ -103,6 +280,14 @@ export interface ImportDataPayload {
 // Response Data Types
 // =============================================================================
 
+/**
+ * A tab in the current window, offered for selection before saving.
+ */
+export interface WindowTab extends TabSnapshot {
+  tabId: number;
+  highlighted: boolean;
+}
+
 export interface RestoreSessionResponse {
   tabsOpened: number;
 }
@@ -115,10 +300,116 @@ export interface RenameSessionResponse {
   session: Session;
 }
 
+export interface PinSessionResponse {
+  session: Session;
+}
+
+export interface ArchiveSessionResponse {
+  session: Session;
+}
+
+export interface UnarchiveSessionResponse {
+  session: Session;
+}
+
+export interface RestoreFromTrashResponse {
+  session: Session;
+}
+
+export interface PurgeSessionResponse {
+  success: true;
+}
+
+export interface EmptyTrashResponse {
+  /** Number of sessions permanently deleted */
+  purgedCount: number;
+}
+
+export interface DedupeSessionResponse {
+  session: Session;
+  /** Number of duplicate tabs removed */
+  removedCount: number;
+}
+
+export interface MergeSessionsResponse {
+  session: Session;
+  /** Number of duplicate tabs removed */
+  removedCount: number;
+}
+
+export interface SplitSessionResponse {
+  /** The session the groups were taken from */
+  session: Session;
+  newSession: Session;
+}
+
+export interface AddToSessionResponse {
+  session: Session;
+  tabsAdded: number;
+}
+
+export interface SetSessionTagsResponse {
+  session: Session;
+}
+
+export interface SetSessionNotesResponse {
+  session: Session;
+}
+
+export interface ReorderGroupsResponse {
+  session: Session;
+}
+
+export interface OpenTabResponse {
+  success: true;
+}
+
+export interface UpdateTabResponse {
+  session: Session;
+}
+
+export interface DeleteTabResponse {
+  session: Session;
+}
+
+export interface MoveTabResponse {
+  /** Updated source session, followed by the target session if different */
+  sessions: Session[];
+}
+
+export interface WorkspacesResponse {
+  bindings: WorkspaceBinding[];
+  currentWindowId: number;
+}
+
+export interface SwitchWorkspaceResponse {
+  tabsOpened: number;
+  /** True if the session was already open and its window was focused instead */
+  focused: boolean;
+}
+
+export interface UnbindWorkspaceResponse {
+  success: true;
+}
+
+export interface PreviousStateResponse {
+  /** Last browsing state, or null if it matches what is open */
+  snapshot: BrowsingSnapshot | null;
+}
+
+export interface DismissPreviousStateResponse {
+  success: true;
+}
+
 export interface UndoResponse {
   undone: UndoEntry | null;
 }
 
+export interface SearchFocusResponse {
+  /** True if the popup was opened by the open-search shortcut */
+  focusSearch: boolean;
+}
+
 export interface UpdateSettingsResponse {
   success: true;
 }
@@ -167,10 +458,39 @@ export interface MessageResponseMap {
   [MessageAction.GET_SESSIONS]: Session[];
   [MessageAction.SAVE_SESSION]: Session;
   [MessageAction.RESTORE_SESSION]: RestoreSessionResponse;
+  [MessageAction.GET_WINDOW_TABS]: WindowTab[];
   [MessageAction.DELETE_SESSION]: DeleteSessionResponse;
   [MessageAction.RENAME_SESSION]: RenameSessionResponse;
+  [MessageAction.DEDUPE_SESSION]: DedupeSessionResponse;
+  [MessageAction.PIN_SESSION]: PinSessionResponse;
+  [MessageAction.REORDER_SESSIONS]: Session[];
+  [MessageAction.REORDER_GROUPS]: ReorderGroupsResponse;
+  [MessageAction.MERGE_SESSIONS]: MergeSessionsResponse;
+  [MessageAction.SPLIT_SESSION]: SplitSessionResponse;
+  [MessageAction.ADD_TO_SESSION]: AddToSessionResponse;
+  [MessageAction.ARCHIVE_SESSION]: ArchiveSessionResponse;
+  [MessageAction.UNARCHIVE_SESSION]: UnarchiveSessionResponse;
+  [MessageAction.GET_ARCHIVED_SESSIONS]: Session[];
+  [MessageAction.GET_TRASHED_SESSIONS]: Session[];
+  [MessageAction.RESTORE_FROM_TRASH]: RestoreFromTrashResponse;
+  [MessageAction.PURGE_SESSION]: PurgeSessionResponse;
+  [MessageAction.EMPTY_TRASH]: EmptyTrashResponse;
+  [MessageAction.GET_TAGS]: TagUsage[];
+  [MessageAction.SET_SESSION_TAGS]: SetSessionTagsResponse;
+  [MessageAction.SET_SESSION_NOTES]: SetSessionNotesResponse;
+  [MessageAction.OPEN_TAB]: OpenTabResponse;
+  [MessageAction.UPDATE_TAB]: UpdateTabResponse;
+  [MessageAction.DELETE_TAB]: DeleteTabResponse;
+  [MessageAction.MOVE_TAB]: MoveTabResponse;
+  [MessageAction.GET_WORKSPACES]: WorkspacesResponse;
+  [MessageAction.SWITCH_WORKSPACE]: SwitchWorkspaceResponse;
+  [MessageAction.UNBIND_WORKSPACE]: UnbindWorkspaceResponse;
+  [MessageAction.GET_PREVIOUS_STATE]: PreviousStateResponse;
+  [MessageAction.RESTORE_PREVIOUS_STATE]: RestoreSessionResponse;
+  [MessageAction.DISMISS_PREVIOUS_STATE]: DismissPreviousStateResponse;
   [MessageAction.UNDO]: UndoResponse;
   [MessageAction.GET_UNDO_STACK]: UndoEntry[];
+  [MessageAction.CONSUME_SEARCH_FOCUS]: SearchFocusResponse;
   [MessageAction.GET_SETTINGS]: Settings;
   [MessageAction.UPDATE_SETTINGS]: UpdateSettingsResponse;
   [MessageAction.EXPORT_DATA]: string;
@@ -0,0 +1,427 @@
+/**
+ * TabFlow – Session Search
+ *
+ * One in-memory index and query syntax for every search box: the popup's
+ * search bar and the omnibox.
+ *
+ * Syntax:
+ * - Plain words and "quoted phrases" must all appear in a tab's title, URL,
+ *   domain, note or group name (or all in the session's name, tags and notes)
+ * - tag:work           → sessions tagged "work"
+ * - domain:github.com  → tabs on that domain or its subdomains
+ * - group:work         → tabs in groups with a word starting with "work"
+ * - before:2024-05-01  → sessions saved before that day
+ * - after:2024-05-01   → sessions saved on or after that day
+ * Operator values can be quoted (group:"side project"); unknown operators
+ * and invalid dates are searched as plain text.
+ *
+ * Design:
+ * - One entry per session (its name, tags and notes) and one per tab
+ *   (title, URL, domain, note and group name)
+ * - Words are lowercased alphanumeric runs; query words match by prefix,
+ *   and a term with punctuation or spaces must also appear as written
+ * - Prefix lookups binary-search a sorted word list, so cost grows with
+ *   the number of matches, not the number of tabs
+ */
+
+import type { Session, TabLocation, TabSnapshot } from "./types";
+
+/**
+ * A search hit: a whole session, or one tab within it.
+ */
+export type SearchHit =
+  | { kind: "session"; session: Session }
+  | { kind: "tab"; session: Session; tab: TabSnapshot; location: TabLocation };
+
+/**
+ * Built index. Treat as opaque; query with querySearchIndex() or searchSessions().
+ */
+export interface SearchIndex {
+  hits: SearchHit[];
+  /** Lowercased primary text of each hit (session name, tab title) */
+  labels: string[];
+  /** Lowercased searchable text of each hit, for phrase checks */
+  texts: string[];
+  /** Lowercased group name of each tab hit ("" for sessions) */
+  groupNames: string[];
+  /** Distinct words, sorted, for prefix lookups */
+  words: string[];
+  /** Word → indexes into hits */
+  postings: Map<string, number[]>;
+}
+
+/**
+ * A parsed search query. All values are lowercased.
+ */
+export interface SearchQuery {
+  terms: string[];
+  /** domain: values; a tab must be on one of them */
+  domains: string[];
+  /** group: values; a tab's group name must match one of them */
+  groups: string[];
+  /** tag: values; the session must carry one of them */
+  tags: string[];
+  /** Sessions created before this time (ms) */
+  before?: number;
+  /** Sessions created at or after this time (ms) */
+  after?: number;
+}
+
+/**
+ * A session matching a query.
+ */
+export interface SessionSearchResult {
+  session: Session;
+  /** The session's name, tags and notes contain every term */
+  nameMatched: boolean;
+  /** Matching tab indexes by group ID, or null if the query doesn't filter tabs */
+  tabs: Map<string, number[]> | null;
+}
+
+/** Session hits rank above tab hits with the same match */
+const SESSION_HIT_BOOST = 2;
+
+/** Bonus when the primary text starts with the first query word */
+const LABEL_PREFIX_BOOST = 1;
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Split text into lowercased words (runs of letters and digits).
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Build a search index over sessions, their groups and tabs.
+ * Hits keep the order of the sessions passed in.
+ */
+export function buildSearchIndex(sessions: Session[]): SearchIndex {
+  const index: SearchIndex = {
+    hits: [],
+    labels: [],
+    texts: [],
+    groupNames: [],
+    words: [],
+    postings: new Map(),
+  };
+
+  const add = (hit: SearchHit, label: string, groupName: string, texts: string[]) => {
+    const hitIndex = index.hits.length;
+    const text = texts.join("\n").toLowerCase();
+    index.hits.push(hit);
+    index.labels.push(label.toLowerCase());
+    index.texts.push(text);
+    index.groupNames.push(groupName.toLowerCase());
+
+    for (const word of new Set(tokenize(text))) {
+      const posting = index.postings.get(word);
+      if (posting) {
+        posting.push(hitIndex);
+      } else {
+        index.postings.set(word, [hitIndex]);
+      }
+    }
+  };
+
+  for (const session of sessions) {
+    add({ kind: "session", session }, session.name, "", [
+      session.name,
+      ...(session.tags ?? []),
+      session.notes ?? "",
+    ]);
+
+    for (const group of session.groups) {
+      group.tabs.forEach((tab, tabIndex) => {
+        add(
+          {
+            kind: "tab",
+            session,
+            tab,
+            location: { sessionId: session.id, groupId: group.id, tabIndex },
+          },
+          tab.title,
+          group.name,
+          [tab.title, tab.url, tab.domain, tab.note ?? "", group.name]
+        );
+      });
+    }
+  }
+
+  index.words = [...index.postings.keys()].sort();
+  return index;
+}
+
+// =============================================================================
+// Query Parsing
+// =============================================================================
+
+/** operator:"quoted value" | operator:value | "quoted phrase" | word */
+const QUERY_TOKEN_PATTERN = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight, or undefined if invalid.
+ */
+function parseDay(value: string): number | undefined {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (!match) return undefined;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+/**
+ * Parse the text typed into a search box.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], domains: [], groups: [], tags: [] };
+
+  for (const match of input.matchAll(QUERY_TOKEN_PATTERN)) {
+    const operator = (match[1] ?? match[3])?.toLowerCase();
+    const value = (match[2] ?? match[4] ?? match[5] ?? match[6] ?? "").toLowerCase().trim();
+    if (!value) continue;
+
+    switch (operator) {
+      case "domain":
+        query.domains.push(value);
+        continue;
+      case "group":
+        query.groups.push(value);
+        continue;
+      case "tag":
+        query.tags.push(value);
+        continue;
+      case "before":
+      case "after": {
+        const day = parseDay(value);
+        if (day !== undefined) {
+          query[operator] = day;
+          continue;
+        }
+        break;
+      }
+    }
+
+    // Plain text, including unknown operators like "https://..."
+    query.terms.push(operator ? match[0].toLowerCase() : value);
+  }
+
+  return query;
+}
+
+/**
+ * Whether a query has nothing to search for.
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.domains.length === 0 &&
+    query.groups.length === 0 &&
+    query.tags.length === 0 &&
+    query.before === undefined &&
+    query.after === undefined
+  );
+}
+
+/**
+ * The query text to mark in results.
+ */
+export function getHighlightTerms(query: SearchQuery): string[] {
+  return [...query.terms, ...query.domains, ...query.groups];
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * First position in a sorted word list that is not before the prefix.
+ */
+function lowerBound(words: string[], prefix: string): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (words[mid] < prefix) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Hits containing a word that starts with the prefix.
+ */
+function matchPrefix(index: SearchIndex, prefix: string): Set<number> {
+  const matches = new Set<number>();
+  for (let i = lowerBound(index.words, prefix); i < index.words.length; i++) {
+    const word = index.words[i];
+    if (!word.startsWith(prefix)) break;
+    for (const hitIndex of index.postings.get(word) ?? []) {
+      matches.add(hitIndex);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Whether every word of the value prefix-matches a word of the text.
+ */
+function matchesWords(text: string, value: string): boolean {
+  const words = tokenize(text);
+  return tokenize(value).every((wanted) => words.some((word) => word.startsWith(wanted)));
+}
+
+function matchesDomain(domain: string, domains: string[]): boolean {
+  const lower = domain.toLowerCase();
+  return domains.some((wanted) => lower === wanted || lower.endsWith(`.${wanted}`));
+}
+
+/**
+ * Indexes of the hits matching every term and filter, in index order.
+ * With no terms, every hit passing the filters matches.
+ */
+function matchHits(index: SearchIndex, query: SearchQuery): number[] {
+  const { terms, domains, groups, tags, before, after } = query;
+
+  // Intersect the word matches, starting from the rarest word to keep the sets small
+  let candidates: number[];
+  const queryWords = [...new Set(terms.flatMap(tokenize))];
+  if (queryWords.length > 0) {
+    const matchSets = queryWords
+      .map((word) => matchPrefix(index, word))
+      .sort((a, b) => a.size - b.size);
+    candidates = [...matchSets[0]]
+      .filter((hitIndex) => matchSets.every((set) => set.has(hitIndex)))
+      .sort((a, b) => a - b);
+  } else {
+    candidates = index.hits.map((_, hitIndex) => hitIndex);
+  }
+
+  // Terms with punctuation or spaces ("github.com", "side project") must appear as written
+  const phrases = terms.filter((term) => tokenize(term).join(" ") !== term);
+
+  return candidates.filter((hitIndex) => {
+    const hit = index.hits[hitIndex];
+    const { createdAt } = hit.session;
+    if (before !== undefined && createdAt >= before) return false;
+    if (after !== undefined && createdAt < after) return false;
+    if (tags.length > 0) {
+      const sessionTags = (hit.session.tags ?? []).map((tag) => tag.toLowerCase());
+      if (!tags.some((tag) => sessionTags.includes(tag))) return false;
+    }
+
+    // Tab operators narrow to tabs
+    if (domains.length > 0 || groups.length > 0) {
+      if (hit.kind !== "tab") return false;
+      if (domains.length > 0 && !matchesDomain(hit.tab.domain, domains)) return false;
+      const groupName = index.groupNames[hitIndex];
+      if (groups.length > 0 && !groups.some((wanted) => matchesWords(groupName, wanted))) {
+        return false;
+      }
+    }
+
+    return phrases.every((phrase) => index.texts[hitIndex].includes(phrase));
+  });
+}
+
+/**
+ * Find the hits matching a query, best first.
+ *
+ * @param index - Index from buildSearchIndex()
+ * @param input - Text typed into the search box (operators allowed)
+ * @param limit - Maximum number of hits to return
+ */
+export function querySearchIndex(index: SearchIndex, input: string, limit: number): SearchHit[] {
+  const query = parseSearchQuery(input);
+  if (isEmptySearchQuery(query)) return [];
+
+  const firstWord = tokenize(query.terms[0] ?? "")[0];
+  const score = (hitIndex: number) =>
+    (index.hits[hitIndex].kind === "session" ? SESSION_HIT_BOOST : 0) +
+    (firstWord && index.labels[hitIndex].startsWith(firstWord) ? LABEL_PREFIX_BOOST : 0);
+
+  return matchHits(index, query)
+    .sort(
+      (a, b) =>
+        score(b) - score(a) || index.hits[b].session.createdAt - index.hits[a].session.createdAt
+    )
+    .slice(0, limit)
+    .map((hitIndex) => index.hits[hitIndex]);
+}
+
+/**
+ * Find the sessions matching a query, in index order.
+ */
+export function searchSessions(index: SearchIndex, query: SearchQuery): SessionSearchResult[] {
+  const filtersTabs = query.terms.length > 0 || query.domains.length > 0 || query.groups.length > 0;
+  const results: SessionSearchResult[] = [];
+
+  for (const hitIndex of matchHits(index, query)) {
+    const hit = index.hits[hitIndex];
+    let current = results[results.length - 1];
+    if (current?.session !== hit.session) {
+      current = { session: hit.session, nameMatched: false, tabs: filtersTabs ? new Map() : null };
+      results.push(current);
+    }
+
+    if (hit.kind === "session") {
+      // Without terms the session hit only says the session passed the filters
+      current.nameMatched = query.terms.length > 0;
+    } else if (current.tabs) {
+      const { groupId, tabIndex } = hit.location;
+      const tabIndexes = current.tabs.get(groupId);
+      if (tabIndexes) {
+        tabIndexes.push(tabIndex);
+      } else {
+        current.tabs.set(groupId, [tabIndex]);
+      }
+    }
+  }
+
+  return results;
+}
+
+// =============================================================================
+// Highlighting
+// =============================================================================
+
+/**
+ * A run of text, marked if it matched a search term.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into runs, marking every word that starts with a word of the terms.
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const queryWords = terms.flatMap(tokenize);
+  const segments: HighlightSegment[] = [];
+
+  for (const part of text.split(/([^\p{L}\p{N}]+)/u)) {
+    if (!part) continue;
+    const word = part.toLowerCase();
+    const match = queryWords.some((queryWord) => word.startsWith(queryWord));
+
+    // Merge neighbouring runs of the same kind
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, match });
+    }
+  }
+
+  return segments.length > 0 ? segments : [{ text, match: false }];
+}
@@ -0,0 +1,54 @@
+/**
+ * TabFlow – Session Sorting
+ *
+ * Orders for the session list, shared by storage (getAllSessions returns
+ * the custom order) and the popup's sort picker.
+ *
+ * Pinned sessions always come first; the chosen order applies within the
+ * pinned and the unpinned sessions. Ties fall back to newest first.
+ */
+
+import type { Session, SessionSortOrder } from "./types";
+
+/**
+ * Sort orders offered in the popup, with their labels.
+ */
+export const SESSION_SORT_ORDERS: { value: SessionSortOrder; label: string }[] = [
+  { value: "custom", label: "Custom order" },
+  { value: "recentlyRestored", label: "Recently restored" },
+  { value: "recentlyUpdated", label: "Recently updated" },
+  { value: "mostTabs", label: "Most tabs" },
+  { value: "name", label: "Name" },
+  { value: "created", label: "Date created" },
+];
+
+function countTabs(session: Session): number {
+  return session.groups.reduce((sum, group) => sum + group.tabs.length, 0);
+}
+
+const byNewest = (a: Session, b: Session) => b.createdAt - a.createdAt;
+
+const COMPARATORS: Record<SessionSortOrder, (a: Session, b: Session) => number> = {
+  // Sessions without an order (never reordered, or new since) sort by -createdAt
+  custom: (a, b) => (a.order ?? -a.createdAt) - (b.order ?? -b.createdAt),
+  recentlyRestored: (a, b) => (b.lastRestoredAt ?? 0) - (a.lastRestoredAt ?? 0) || byNewest(a, b),
+  recentlyUpdated: (a, b) =>
+    (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt) || byNewest(a, b),
+  mostTabs: (a, b) => countTabs(b) - countTabs(a) || byNewest(a, b),
+  name: (a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base", numeric: true }) ||
+    byNewest(a, b),
+  created: byNewest,
+};
+
+/**
+ * Sort sessions for the list, pinned first.
+ *
+ * @param sessions - Sessions to sort (not modified)
+ * @param order - Order within pinned and unpinned sessions
+ * @returns A new, sorted array
+ */
+export function sortSessions(sessions: Session[], order: SessionSortOrder): Session[] {
+  const compare = COMPARATORS[order] ?? COMPARATORS.custom;
+  return [...sessions].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || compare(a, b));
+}
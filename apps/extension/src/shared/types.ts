@@ -17,15 +17,71 @@ export interface TabSnapshot {
   domain: string;
   favicon: string;
   lastAccessed: number;
+  /** Optional tab state (absent in sessions saved before v2) */
+  pinned?: boolean;
+  muted?: boolean;
+  active?: boolean;
+  /** Position of the tab within its window when captured */
+  index?: number;
+  /** URL before normalization (only kept when it differs and the user opted in) */
+  originalUrl?: string;
+  /** Short annotation, e.g. "read section 3" */
+  note?: string;
 }
 
+/**
+ * Colors supported by native Chrome tab groups.
+ * Mirrors chrome.tabGroups.ColorEnum so groups round-trip without mapping.
+ */
+export type GroupColor =
+  | "grey"
+  | "blue"
+  | "red"
+  | "yellow"
+  | "green"
+  | "pink"
+  | "purple"
+  | "cyan"
+  | "orange";
+
 /**
  * A named group of tabs within a session.
+ * color/collapsed are only present when captured from a native Chrome tab group.
+ * windowIndex is only present in multi-window sessions.
  */
 export interface Group {
   id: string;
   name: string;
   tabs: TabSnapshot[];
+  color?: GroupColor;
+  collapsed?: boolean;
+  /** Zero-based window this group belongs to (restored into its own window) */
+  windowIndex?: number;
+}
+
+/**
+ * A user-defined label for sessions. Sessions refer to tags by name.
+ */
+export interface Tag {
+  name: string;
+  color: GroupColor;
+}
+
+/**
+ * A tag with the number of sessions carrying it.
+ */
+export interface TagUsage extends Tag {
+  sessionCount: number;
+}
+
+/**
+ * Position of a tab inside a saved session.
+ * tabIndex is the tab's index within its group's tabs array.
+ */
+export interface TabLocation {
+  sessionId: string;
+  groupId: string;
+  tabIndex: number;
 }
 
 /**
@@ -36,8 +92,65 @@ export interface Session {
   name: string;
   createdAt: number;
   groups: Group[];
+  /** Written by the periodic auto-save rather than the user */
+  autoSaved?: boolean;
+  /**
+   * Position in the session list, set when the user reorders sessions.
+   * Sessions without one sort by -createdAt, so new sessions land on top.
+   */
+  order?: number;
+  /** Names of the session's tags (indexed by byTag) */
+  tags?: string[];
+  /** Starred by the user; pinned sessions stay at the top of the list */
+  pinned?: boolean;
+  /** Markdown notes about the session */
+  notes?: string;
+  /** When the session's tabs, name, tags or notes last changed (unset until then) */
+  updatedAt?: number;
+  /** When the whole session was last restored */
+  lastRestoredAt?: number;
+  /** How many times the whole session was restored */
+  restoreCount?: number;
+  /** When the session was archived: kept, but hidden from the session list */
+  archivedAt?: number;
+  /** When the session was moved to the Trash; purged after the retention period */
+  trashedAt?: number;
 }
 
+/**
+ * Order of the session list. Pinned sessions come first in every order.
+ * - custom: the user's drag-and-drop order, new sessions on top
+ * - recentlyRestored: last restored first; never-restored sessions last
+ * - recentlyUpdated: last changed first
+ * - mostTabs: most tabs first
+ * - name: alphabetical
+ * - created: newest first
+ */
+export type SessionSortOrder =
+  | "custom"
+  | "recentlyRestored"
+  | "recentlyUpdated"
+  | "mostTabs"
+  | "name"
+  | "created";
+
+/**
+ * Which tabs are captured when saving a session.
+ * - currentWindow: tabs in the current window
+ * - allWindows: tabs in every normal window, one window layer per window
+ * - highlighted: tabs highlighted (multi-selected) in the current window
+ * - selected: explicit tab IDs from the current window
+ */
+export type CaptureScope = "currentWindow" | "allWindows" | "highlighted" | "selected";
+
+/**
+ * Where restored tabs are opened.
+ * - currentWindow: append to the current window
+ * - newWindow: open a fresh window
+ * - replaceWindow: open in the current window, then close its existing tabs
+ */
+export type RestoreMode = "currentWindow" | "newWindow" | "replaceWindow";
+
 // =============================================================================
 // Undo Types
 // =============================================================================
@@ -50,7 +163,18 @@ export type UndoEntryType =
   | "DELETE_SESSION"
   | "RENAME_SESSION"
   | "APPLY_GROUPING"
-  | "IMPORT";
+  | "IMPORT"
+  | "STASH_TABS"
+  | "DEDUPE_SESSION"
+  | "UPDATE_TAB"
+  | "DELETE_TAB"
+  | "MOVE_TAB"
+  | "MERGE_SESSIONS"
+  | "SPLIT_SESSION"
+  | "ADD_TO_SESSION"
+  | "TAG_SESSION"
+  | "ARCHIVE_SESSION"
+  | "EDIT_NOTES";
 
 /**
  * Base undo entry structure.
@@ -78,6 +202,8 @@ export interface DeleteSessionUndo extends UndoEntry {
   type: "DELETE_SESSION";
   data: {
     session: Session;
+    /** Window the session followed as a workspace, rebound on undo */
+    windowId?: number;
   };
 }
 
@@ -113,10 +239,153 @@ export interface ImportUndo extends UndoEntry {
   };
 }
 
+/**
+ * Undo entry for stashing tabs (save, then close).
+ * Undo reopens the tabs in their windows (or new ones for closed windows),
+ * closes the placeholder tabs and removes the session.
+ */
+export interface StashTabsUndo extends UndoEntry {
+  type: "STASH_TABS";
+  data: {
+    session: Session;
+    placeholderTabIds: number[];
+    /** Window each windowIndex was stashed from (absent in entries from older versions) */
+    windowIds?: number[];
+  };
+}
+
+/**
+ * Undo entry for removing duplicate tabs from a session.
+ */
+export interface DedupeSessionUndo extends UndoEntry {
+  type: "DEDUPE_SESSION";
+  data: {
+    previousSession: Session;
+  };
+}
+
+/**
+ * Undo entry for editing a tab's title or URL.
+ */
+export interface UpdateTabUndo extends UndoEntry {
+  type: "UPDATE_TAB";
+  data: {
+    previousSession: Session;
+  };
+}
+
+/**
+ * Undo entry for deleting a single tab from a session.
+ */
+export interface DeleteTabUndo extends UndoEntry {
+  type: "DELETE_TAB";
+  data: {
+    previousSession: Session;
+  };
+}
+
+/**
+ * Undo entry for moving a tab to another group or session.
+ * Holds one session for moves within a session, two otherwise.
+ */
+export interface MoveTabUndo extends UndoEntry {
+  type: "MOVE_TAB";
+  data: {
+    previousSessions: Session[];
+  };
+}
+
+/**
+ * Undo entry for merging sessions.
+ * The first session received the others, which were deleted.
+ */
+export interface MergeSessionsUndo extends UndoEntry {
+  type: "MERGE_SESSIONS";
+  data: {
+    previousSessions: Session[];
+  };
+}
+
+/**
+ * Undo entry for splitting groups off into a new session.
+ */
+export interface SplitSessionUndo extends UndoEntry {
+  type: "SPLIT_SESSION";
+  data: {
+    previousSession: Session;
+    newSessionId: string;
+  };
+}
+
+/**
+ * Undo entry for adding open tabs to an existing session.
+ */
+export interface AddToSessionUndo extends UndoEntry {
+  type: "ADD_TO_SESSION";
+  data: {
+    previousSession: Session;
+  };
+}
+
+/**
+ * Undo entry for changing a session's tags.
+ */
+export interface TagSessionUndo extends UndoEntry {
+  type: "TAG_SESSION";
+  data: {
+    previousSession: Session;
+  };
+}
+
+/**
+ * Undo entry for archiving a session.
+ */
+export interface ArchiveSessionUndo extends UndoEntry {
+  type: "ARCHIVE_SESSION";
+  data: {
+    previousSession: Session;
+    /** Window the session followed as a workspace, rebound on undo */
+    windowId?: number;
+  };
+}
+
+/**
+ * Undo entry for editing a session's notes.
+ */
+export interface EditNotesUndo extends UndoEntry {
+  type: "EDIT_NOTES";
+  data: {
+    previousSession: Session;
+  };
+}
+
 // =============================================================================
 // Settings Types
 // =============================================================================
 
+/**
+ * Whether a URL rule keeps or drops matching tabs during capture.
+ */
+export type UrlRuleAction = "include" | "exclude";
+
+/**
+ * Pattern syntax of a URL rule.
+ * - glob: `*` and `?` wildcards, matched against the host (or the full URL, see urlRules.ts)
+ * - regex: JavaScript regular expression, matched against the full URL
+ */
+export type UrlRuleSyntax = "glob" | "regex";
+
+/**
+ * A user-defined rule deciding which tabs are captured.
+ */
+export interface UrlRule {
+  id: string;
+  pattern: string;
+  syntax: UrlRuleSyntax;
+  action: UrlRuleAction;
+  enabled: boolean;
+}
+
 /**
  * User settings stored in chrome.storage.local.
  */
@@ -124,6 +393,34 @@ export interface Settings {
   autoBackup: boolean;
   backupFrequencyHours: number;
   aiOptIn: boolean;
+  restoreMode: RestoreMode;
+  /** Restore tabs discarded so they only load when focused */
+  lazyRestore: boolean;
+  /** Maximum restored tabs loading at once (0 = unlimited) */
+  restoreConcurrency: number;
+  /** Include/exclude rules applied when capturing tabs */
+  urlRules: UrlRule[];
+  /** Remove tracking query parameters from captured URLs */
+  stripTrackingParams: boolean;
+  /** Query parameter names to remove; a trailing "*" matches a prefix (e.g. "utm_*") */
+  trackingParams: string[];
+  /** Drop the #fragment from captured URLs */
+  removeUrlFragments: boolean;
+  /** Remove a trailing slash from URL paths (other than the root "/") */
+  trimTrailingSlashes: boolean;
+  /** Keep the unmodified URL alongside the normalized one */
+  keepOriginalUrls: boolean;
+  /** Skip tabs whose (normalized) URL is already in the session when saving */
+  dedupeOnSave: boolean;
+  /** Periodically save all open windows into an "Autosave" session */
+  autoSave: boolean;
+  autoSaveIntervalMinutes: number;
+  /** Number of autosave sessions to keep (1 = a single rolling session) */
+  autoSaveKeepCount: number;
+  /** Order of the popup's session list */
+  sessionSort: SessionSortOrder;
+  /** Days a session stays in the Trash before it's deleted (0 = until emptied) */
+  trashRetentionDays: number;
 }
 
 /**
@@ -133,6 +430,42 @@ export const DEFAULT_SETTINGS: Settings = {
   autoBackup: true,
   backupFrequencyHours: 1,
   aiOptIn: false,
+  restoreMode: "currentWindow",
+  lazyRestore: false,
+  restoreConcurrency: 10,
+  urlRules: [
+    {
+      id: "default-new-tab",
+      pattern: "chrome://newtab*",
+      syntax: "glob",
+      action: "exclude",
+      enabled: true,
+    },
+  ],
+  stripTrackingParams: true,
+  trackingParams: [
+    "utm_*",
+    "fbclid",
+    "gclid",
+    "dclid",
+    "msclkid",
+    "yclid",
+    "twclid",
+    "igshid",
+    "mc_cid",
+    "mc_eid",
+    "_ga",
+    "_gl",
+  ],
+  removeUrlFragments: false,
+  trimTrailingSlashes: false,
+  keepOriginalUrls: false,
+  dedupeOnSave: false,
+  autoSave: false,
+  autoSaveIntervalMinutes: 15,
+  autoSaveKeepCount: 1,
+  sessionSort: "custom",
+  trashRetentionDays: 30,
 };
 
 // =============================================================================
@@ -147,6 +480,36 @@ export interface BackupBlob {
   timestamp: string;
   sessions: Session[];
   settings?: Settings;
+  /** Tag definitions (schema v3+) */
+  tags?: Tag[];
+}
+
+// =============================================================================
+// Browsing State Types
+// =============================================================================
+
+/**
+ * Snapshot of every open window, kept up to date while the browser runs
+ * so the last browsing state can be recovered after a crash or shutdown.
+ */
+export interface BrowsingSnapshot {
+  capturedAt: number;
+  /** Captured groups without IDs, one window layer per window */
+  groups: Omit<Group, "id">[];
+}
+
+// =============================================================================
+// Workspace Types
+// =============================================================================
+
+/**
+ * A window whose tabs are kept in sync with a session.
+ */
+export interface WorkspaceBinding {
+  windowId: number;
+  sessionId: string;
+  /** Saved tabs the window can't show (chrome:// pages, URL rule exclusions), kept on sync */
+  heldGroups?: Group[];
 }
 
 // =============================================================================
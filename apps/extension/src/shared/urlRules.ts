@@ -0,0 +1,162 @@
+/**
+ * TabFlow – URL Rules
+ *
+ * Matching for user-defined include/exclude rules applied during capture.
+ * Shared by the background (capture) and the options page (rule tester).
+ *
+ * Glob patterns are matched against different parts of the URL depending
+ * on their shape:
+ * - contains "://"  → full URL         (e.g. "chrome://newtab*")
+ * - contains "/"    → URL minus scheme (e.g. "*.example.com/login*")
+ * - otherwise       → hostname only    (e.g. "localhost", "*.corp.example.com")
+ *
+ * Regex patterns are always matched against the full URL.
+ * All matching is case-insensitive.
+ */
+
+import type { UrlRule } from "./types";
+
+/**
+ * Result of evaluating a URL against a rule list.
+ */
+export interface UrlRuleEvaluation {
+  /** Whether a tab with this URL would be captured */
+  allowed: boolean;
+  /** The rule that decided the outcome, if any */
+  rule?: UrlRule;
+}
+
+// =============================================================================
+// Pattern Compilation
+// =============================================================================
+
+/**
+ * Compiled patterns keyed by syntax and pattern.
+ * Capture evaluates the same few rules against every tab.
+ */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Compile a rule's pattern, returning null if it is invalid.
+ */
+function compileRule(rule: UrlRule): RegExp | null {
+  const key = `${rule.syntax}:${rule.pattern}`;
+  const cached = compiledPatterns.get(key);
+  if (cached !== undefined) return cached;
+
+  let compiled: RegExp | null;
+  try {
+    compiled = rule.syntax === "regex" ? new RegExp(rule.pattern, "i") : globToRegExp(rule.pattern);
+  } catch {
+    compiled = null;
+  }
+
+  compiledPatterns.set(key, compiled);
+  return compiled;
+}
+
+/**
+ * Pick the part of the URL a glob pattern is matched against.
+ */
+function getGlobSubject(pattern: string, url: string): string {
+  if (pattern.includes("://")) return url;
+
+  try {
+    const parsed = new URL(url);
+    if (pattern.includes("/")) {
+      return `${parsed.host}${parsed.pathname}${parsed.search}${parsed.hash}`;
+    }
+    return parsed.hostname;
+  } catch {
+    return url;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Check a rule's pattern for problems.
+ *
+ * @param rule - Rule to check
+ * @returns Error message, or null if the rule is valid
+ */
+export function getUrlRuleError(rule: UrlRule): string | null {
+  if (rule.pattern.trim() === "") {
+    return "Pattern cannot be empty";
+  }
+
+  if (rule.syntax === "regex") {
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      return error instanceof Error ? error.message : "Invalid regular expression";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a URL matches a single rule. Invalid rules never match.
+ *
+ * @param rule - Rule to test
+ * @param url - URL to test
+ */
+export function matchesUrlRule(rule: UrlRule, url: string): boolean {
+  const pattern = compileRule(rule);
+  if (!pattern) return false;
+
+  const subject = rule.syntax === "glob" ? getGlobSubject(rule.pattern, url) : url;
+  return pattern.test(subject);
+}
+
+/**
+ * Decide whether a URL is captured under a rule list.
+ *
+ * - A URL matching any enabled exclude rule is dropped
+ * - If any include rules are enabled, the URL must match one of them
+ * - Otherwise the URL is captured
+ *
+ * @param url - URL to evaluate
+ * @param rules - Rules from settings
+ */
+export function evaluateUrlRules(url: string, rules: UrlRule[]): UrlRuleEvaluation {
+  const enabled = rules.filter((rule) => rule.enabled);
+
+  const exclude = enabled.find((rule) => rule.action === "exclude" && matchesUrlRule(rule, url));
+  if (exclude) {
+    return { allowed: false, rule: exclude };
+  }
+
+  const includes = enabled.filter((rule) => rule.action === "include");
+  if (includes.length === 0) {
+    return { allowed: true };
+  }
+
+  const include = includes.find((rule) => matchesUrlRule(rule, url));
+  return include ? { allowed: true, rule: include } : { allowed: false };
+}
+
+/**
+ * Shorthand for evaluateUrlRules(url, rules).allowed.
+ */
+export function isUrlAllowed(url: string, rules: UrlRule[]): boolean {
+  return evaluateUrlRules(url, rules).allowed;
+}
@@ -3,7 +3,8 @@
  * Validates data at runtime (e.g., for import).
  */
 
-import type { BackupBlob, Session, TabSnapshot, Group } from "./types";
+import type { BackupBlob, Session, TabSnapshot, Group, GroupColor, Tag } from "./types";
+import { GROUP_COLORS } from "./constants";
 
 // =============================================================================
 // Type Guards
@@ -30,6 +31,20 @@ function isNumber(value: unknown): value is number {
   return typeof value === "number" && !isNaN(value);
 }
 
+/**
+ * Check if value is a boolean.
+ */
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === "boolean";
+}
+
+/**
+ * Check if value is one of Chrome's tab group colors.
+ */
+function isGroupColor(value: unknown): value is GroupColor {
+  return GROUP_COLORS.includes(value as GroupColor);
+}
+
 /**
  * Check if value is an array.
  */
@@ -47,13 +62,25 @@ function isArray(value: unknown): value is unknown[] {
 export function validateTabSnapshot(data: unknown): data is TabSnapshot {
   if (!isObject(data)) return false;
 
-  return (
-    isString(data.title) &&
-    isString(data.url) &&
-    isString(data.domain) &&
-    isString(data.favicon) &&
-    isNumber(data.lastAccessed)
-  );
+  if (
+    !isString(data.title) ||
+    !isString(data.url) ||
+    !isString(data.domain) ||
+    !isString(data.favicon) ||
+    !isNumber(data.lastAccessed)
+  ) {
+    return false;
+  }
+
+  // Optional tab state
+  if (data.pinned !== undefined && !isBoolean(data.pinned)) return false;
+  if (data.muted !== undefined && !isBoolean(data.muted)) return false;
+  if (data.active !== undefined && !isBoolean(data.active)) return false;
+  if (data.index !== undefined && !isNumber(data.index)) return false;
+  if (data.originalUrl !== undefined && !isString(data.originalUrl)) return false;
+  if (data.note !== undefined && !isString(data.note)) return false;
+
+  return true;
 }
 
 /**
@@ -65,6 +92,11 @@ export function validateGroup(data: unknown): data is Group {
   if (!isString(data.id) || !isString(data.name)) return false;
   if (!isArray(data.tabs)) return false;
 
+  // Optional native tab group metadata
+  if (data.color !== undefined && !isGroupColor(data.color)) return false;
+  if (data.collapsed !== undefined && !isBoolean(data.collapsed)) return false;
+  if (data.windowIndex !== undefined && !isNumber(data.windowIndex)) return false;
+
   return data.tabs.every(validateTabSnapshot);
 }
 
@@ -77,10 +109,28 @@ export function validateSession(data: unknown): data is Session {
   if (!isString(data.id) || !isString(data.name)) return false;
   if (!isNumber(data.createdAt)) return false;
   if (!isArray(data.groups)) return false;
+  if (data.autoSaved !== undefined && !isBoolean(data.autoSaved)) return false;
+  if (data.order !== undefined && !isNumber(data.order)) return false;
+  if (data.tags !== undefined && !(isArray(data.tags) && data.tags.every(isString))) return false;
+  if (data.pinned !== undefined && !isBoolean(data.pinned)) return false;
+  if (data.notes !== undefined && !isString(data.notes)) return false;
+  if (data.updatedAt !== undefined && !isNumber(data.updatedAt)) return false;
+  if (data.lastRestoredAt !== undefined && !isNumber(data.lastRestoredAt)) return false;
+  if (data.archivedAt !== undefined && !isNumber(data.archivedAt)) return false;
+  if (data.trashedAt !== undefined && !isNumber(data.trashedAt)) return false;
+  if (data.restoreCount !== undefined && !isNumber(data.restoreCount)) return false;
 
   return data.groups.every(validateGroup);
 }
 
+/**
+ * Validate a Tag object.
+ */
+export function validateTag(data: unknown): data is Tag {
+  if (!isObject(data)) return false;
+  return isString(data.name) && isGroupColor(data.color);
+}
+
 /**
  * Validate import data schema (BackupBlob).
  */
@@ -91,6 +141,9 @@ export function validateImportSchema(data: unknown): data is BackupBlob {
   if (!isNumber(data.version)) return false;
   if (!isString(data.timestamp)) return false;
   if (!isArray(data.sessions)) return false;
+  if (data.tags !== undefined && !(isArray(data.tags) && data.tags.every(validateTag))) {
+    return false;
+  }
 
   // Validate each session
   return data.sessions.every(validateSession);
@@ -136,6 +189,19 @@ export function validateImportWithErrors(data: unknown): ValidationResult {
     }
   });
 
+  // v3+: tag definitions
+  if (data.tags !== undefined) {
+    if (!isArray(data.tags)) {
+      errors.push("Invalid 'tags' array");
+    } else {
+      data.tags.forEach((tag, index) => {
+        if (!validateTag(tag)) {
+          errors.push(`Invalid tag at index ${index}`);
+        }
+      });
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
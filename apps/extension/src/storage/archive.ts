@@ -0,0 +1,190 @@
+/**
+ * TabFlow – Archive and Trash Storage Operations
+ *
+ * Archived and trashed sessions stay in the sessions store, marked with
+ * archivedAt or trashedAt, and are left out of getAllSessions().
+ *
+ * Design:
+ * - Archive: kept indefinitely, just out of the way
+ * - Trash: where deleted sessions go; purged after the retention period
+ * - A session is in at most one of the two; moving it clears the other mark
+ * - Only purgeTrash() and deleteSession() remove sessions for good
+ */
+
+import type { Session } from "@shared/types";
+import { getDB, StorageError, withErrorHandling, now } from "./db";
+
+// =============================================================================
+// Read Operations
+// =============================================================================
+
+/**
+ * Get archived sessions, most recently archived first.
+ *
+ * @returns Promise resolving to archived sessions
+ * @throws StorageError if read fails
+ */
+export async function getArchivedSessions(): Promise<Session[]> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const sessions = await db.getAll("sessions");
+    return sessions
+      .filter((session) => session.archivedAt !== undefined && session.trashedAt === undefined)
+      .sort((a, b) => b.archivedAt! - a.archivedAt!);
+  }, "get archived sessions");
+}
+
+/**
+ * Get sessions in the Trash, most recently trashed first.
+ *
+ * @returns Promise resolving to trashed sessions
+ * @throws StorageError if read fails
+ */
+export async function getTrashedSessions(): Promise<Session[]> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const sessions = await db.getAll("sessions");
+    return sessions
+      .filter((session) => session.trashedAt !== undefined)
+      .sort((a, b) => b.trashedAt! - a.trashedAt!);
+  }, "get trashed sessions");
+}
+
+// =============================================================================
+// Write Operations
+// =============================================================================
+
+/**
+ * Apply a change to a stored session in one transaction.
+ *
+ * @returns Promise resolving to the session before and after the change
+ * @throws StorageError if the session doesn't exist or write fails
+ */
+async function changeSession(
+  sessionId: string,
+  change: (session: Session) => void,
+  operation: string
+): Promise<{ previousSession: Session; session: Session }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const previousSession = await tx.store.get(sessionId);
+    if (!previousSession) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    const session: Session = { ...previousSession };
+    change(session);
+    await tx.store.put(session);
+
+    await tx.done;
+    return { previousSession, session };
+  }, `${operation} session ${sessionId}`);
+}
+
+/**
+ * Archive a session, hiding it from the list without deleting it.
+ *
+ * @param sessionId - Session ID
+ * @returns Promise resolving to the session before (for undo) and after archiving
+ * @throws StorageError if session not found
+ */
+export async function archiveSession(
+  sessionId: string
+): Promise<{ previousSession: Session; session: Session }> {
+  return changeSession(
+    sessionId,
+    (session) => {
+      session.archivedAt = now();
+      delete session.trashedAt;
+    },
+    "archive"
+  );
+}
+
+/**
+ * Move an archived session back to the list.
+ *
+ * @param sessionId - Session ID
+ * @returns Promise resolving to the updated session
+ * @throws StorageError if session not found
+ */
+export async function unarchiveSession(sessionId: string): Promise<Session> {
+  const { session } = await changeSession(
+    sessionId,
+    (session) => {
+      delete session.archivedAt;
+    },
+    "unarchive"
+  );
+  return session;
+}
+
+/**
+ * Move a session to the Trash.
+ *
+ * @param sessionId - Session ID
+ * @returns Promise resolving to the session before (for undo) and after trashing
+ * @throws StorageError if session not found
+ */
+export async function trashSession(
+  sessionId: string
+): Promise<{ previousSession: Session; session: Session }> {
+  return changeSession(
+    sessionId,
+    (session) => {
+      session.trashedAt = now();
+      delete session.archivedAt;
+    },
+    "trash"
+  );
+}
+
+/**
+ * Take a session out of the Trash and back to the list.
+ *
+ * @param sessionId - Session ID
+ * @returns Promise resolving to the updated session
+ * @throws StorageError if session not found
+ */
+export async function restoreFromTrash(sessionId: string): Promise<Session> {
+  const { session } = await changeSession(
+    sessionId,
+    (session) => {
+      delete session.trashedAt;
+    },
+    "restore from trash"
+  );
+  return session;
+}
+
+/**
+ * Permanently delete sessions that went to the Trash before a cutoff.
+ *
+ * @param trashedBefore - Cutoff time (ms); Infinity empties the Trash
+ * @returns Promise resolving to the number of sessions deleted
+ * @throws StorageError if delete fails
+ */
+export async function purgeTrash(trashedBefore: number): Promise<number> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    let cursor = await tx.store.openCursor();
+    let deleted = 0;
+
+    while (cursor) {
+      const { trashedAt } = cursor.value;
+      if (trashedAt !== undefined && trashedAt < trashedBefore) {
+        await cursor.delete();
+        deleted++;
+      }
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+    return deleted;
+  }, "purge trash");
+}
@@ -5,16 +5,19 @@
  * Backups are stored in IndexedDB 'backups' store with timestamp keys.
  *
  * Design:
- * - Each backup is a complete snapshot of all sessions
+ * - Each backup is a complete snapshot of all sessions and tag definitions
  * - Backups are keyed by ISO timestamp string
  * - Old backups are automatically pruned (keep last N)
  * - Export/import uses JSON format for portability
+ * - Blobs carry BACKUP_SCHEMA_VERSION; older versions import as-is (every
+ *   field added since is optional), newer ones are rejected
  */
 
 import type { Session, BackupBlob, Settings } from "@shared/types";
-import { MAX_BACKUPS_RETAINED } from "@shared/constants";
+import { MAX_BACKUPS_RETAINED, BACKUP_SCHEMA_VERSION } from "@shared/constants";
 import { getDB, withErrorHandling } from "./db";
 import { getAllSessions } from "./sessions";
+import { getAllTags } from "./tags";
 
 // =============================================================================
 // Backup Read Operations
@@ -112,12 +115,13 @@ export async function getBackupCount(): Promise<number> {
 export async function createBackup(sessions?: Session[]): Promise<BackupBlob> {
   return withErrorHandling(async () => {
     // Fetch sessions if not provided
-    const sessionsToBackup = sessions ?? (await getAllSessions());
+    const sessionsToBackup = sessions ?? (await getAllSessions({ includeHidden: true }));
 
     const backup: BackupBlob = {
-      version: 1,
+      version: BACKUP_SCHEMA_VERSION,
       timestamp: new Date().toISOString(),
       sessions: sessionsToBackup,
+      tags: await getAllTags(),
     };
 
     const db = await getDB();
@@ -225,13 +229,14 @@ export async function clearAllBackups(): Promise<number> {
  */
 export async function exportData(settings?: Settings): Promise<string> {
   return withErrorHandling(async () => {
-    const sessions = await getAllSessions();
+    const sessions = await getAllSessions({ includeHidden: true });
 
     const exportBlob: BackupBlob = {
-      version: 1,
+      version: BACKUP_SCHEMA_VERSION,
       timestamp: new Date().toISOString(),
       sessions,
       settings,
+      tags: await getAllTags(),
     };
 
     return JSON.stringify(exportBlob, null, 2);
@@ -259,6 +264,12 @@ export function parseImportData(json: string): BackupBlob {
       throw new Error("Invalid import data: missing version");
     }
 
+    if (data.version > BACKUP_SCHEMA_VERSION) {
+      throw new Error(
+        `Invalid import data: version ${data.version} is from a newer TabFlow (this one reads up to ${BACKUP_SCHEMA_VERSION})`
+      );
+    }
+
     if (!Array.isArray(data.sessions)) {
       throw new Error("Invalid import data: sessions must be an array");
     }
@@ -275,6 +286,25 @@ export function parseImportData(json: string): BackupBlob {
       if (!Array.isArray(session.groups)) {
         throw new Error(`Invalid session at index ${i}: groups must be an array`);
       }
+      if (
+        session.tags !== undefined &&
+        (!Array.isArray(session.tags) || !session.tags.every((t: unknown) => typeof t === "string"))
+      ) {
+        throw new Error(`Invalid session at index ${i}: tags must be an array of names`);
+      }
+    }
+
+    // v3+: tag definitions
+    if (data.tags !== undefined) {
+      if (!Array.isArray(data.tags)) {
+        throw new Error("Invalid import data: tags must be an array");
+      }
+      for (let i = 0; i < data.tags.length; i++) {
+        const tag = data.tags[i];
+        if (!tag || typeof tag.name !== "string" || typeof tag.color !== "string") {
+          throw new Error(`Invalid tag at index ${i}: missing or invalid name or color`);
+        }
+      }
     }
 
     return data as BackupBlob;
@@ -292,7 +322,8 @@ export function parseImportData(json: string): BackupBlob {
 
 /**
  * Restore sessions from a backup.
- * Replaces all current sessions with backup data.
+ * Replaces all current sessions with backup data; the backup's tag
+ * definitions are added to (or update) the existing ones.
  *
  * @param backup - Backup to restore from
  * @returns Promise resolving to array of previous sessions (for undo)
@@ -301,16 +332,21 @@ export function parseImportData(json: string): BackupBlob {
 export async function restoreFromBackup(backup: BackupBlob): Promise<Session[]> {
   return withErrorHandling(async () => {
     const db = await getDB();
-    const tx = db.transaction("sessions", "readwrite");
+    const tx = db.transaction(["sessions", "tags"], "readwrite");
+    const sessions = tx.objectStore("sessions");
 
     // Get current sessions for undo
-    const previousSessions = await tx.store.getAll();
+    const previousSessions = await sessions.getAll();
 
     // Clear and restore
-    await tx.store.clear();
+    await sessions.clear();
 
     for (const session of backup.sessions) {
-      await tx.store.put(session);
+      await sessions.put(session);
+    }
+
+    for (const tag of backup.tags ?? []) {
+      await tx.objectStore("tags").put(tag);
     }
 
     await tx.done;
@@ -0,0 +1,86 @@
+/**
+ * TabFlow – Browsing State Persistence
+ *
+ * Stores snapshots of the open windows for crash and shutdown recovery.
+ *
+ * Design:
+ * - "current" is overwritten (debounced) whenever tabs change
+ * - On browser startup, "current" is moved to "previous" before the new
+ *   browsing session can overwrite it
+ * - "previous" is what the popup offers to restore, until dismissed
+ */
+
+import type { BrowsingSnapshot } from "@shared/types";
+import { getDB, withErrorHandling } from "./db";
+
+const CURRENT_KEY = "current";
+const PREVIOUS_KEY = "previous";
+
+// =============================================================================
+// Read Operations
+// =============================================================================
+
+/**
+ * Get the browsing state left over from the last browser session.
+ *
+ * @returns Promise resolving to the snapshot, or undefined if there is none
+ * @throws StorageError if read fails
+ */
+export async function getPreviousBrowsingSnapshot(): Promise<BrowsingSnapshot | undefined> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    return db.get("browsingState", PREVIOUS_KEY);
+  }, "get previous browsing snapshot");
+}
+
+// =============================================================================
+// Write Operations
+// =============================================================================
+
+/**
+ * Replace the snapshot of the current browsing session.
+ *
+ * @param snapshot - Snapshot of the open windows
+ * @throws StorageError if write fails
+ */
+export async function saveBrowsingSnapshot(snapshot: BrowsingSnapshot): Promise<void> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    await db.put("browsingState", snapshot, CURRENT_KEY);
+  }, "save browsing snapshot");
+}
+
+/**
+ * Move the current snapshot to "previous" at browser startup.
+ * Keeps the existing "previous" snapshot if no current one was recorded.
+ *
+ * @returns Promise resolving to true if a snapshot was moved
+ * @throws StorageError if write fails
+ */
+export async function rotateBrowsingSnapshot(): Promise<boolean> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("browsingState", "readwrite");
+
+    const current = await tx.store.get(CURRENT_KEY);
+    if (current) {
+      await tx.store.put(current, PREVIOUS_KEY);
+      await tx.store.delete(CURRENT_KEY);
+    }
+
+    await tx.done;
+    return current !== undefined;
+  }, "rotate browsing snapshot");
+}
+
+/**
+ * Forget the previous browsing state (restored or dismissed).
+ *
+ * @throws StorageError if delete fails
+ */
+export async function clearPreviousBrowsingSnapshot(): Promise<void> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    await db.delete("browsingState", PREVIOUS_KEY);
+  }, "clear previous browsing snapshot");
+}
@@ -5,14 +5,16 @@
  * Uses the 'idb' library for a cleaner Promise-based API.
  *
  * Object Stores:
- * - sessions: Session objects (keyPath: id, index: byCreatedAt)
+ * - sessions: Session objects (keyPath: id, indexes: byCreatedAt, byTag added in v3)
  * - undoStack: UndoEntry objects (autoIncrement key)
  * - backups: BackupBlob objects (key: timestamp ISO string)
+ * - browsingState: BrowsingSnapshot objects (key: "current" | "previous", added in v2)
+ * - tags: Tag definitions (keyPath: name, added in v3)
  */
 
 import { openDB as idbOpenDB, type IDBPDatabase, type DBSchema } from "idb";
 import { DB_NAME, DB_VERSION } from "@shared/constants";
-import type { Session, UndoEntry, BackupBlob } from "@shared/types";
+import type { Session, UndoEntry, BackupBlob, BrowsingSnapshot, Tag } from "@shared/types";
 
 // =============================================================================
 // Database Schema Definition
@@ -28,6 +30,8 @@ export interface TabFlowDBSchema extends DBSchema {
     value: Session;
     indexes: {
       byCreatedAt: number;
+      /** Multi-entry: one index entry per tag name */
+      byTag: string;
     };
   };
   undoStack: {
@@ -38,6 +42,14 @@ export interface TabFlowDBSchema extends DBSchema {
     key: string;
     value: BackupBlob;
   };
+  browsingState: {
+    key: string;
+    value: BrowsingSnapshot;
+  };
+  tags: {
+    key: string;
+    value: Tag;
+  };
 }
 
 /**
@@ -96,8 +108,26 @@ export async function getDB(): Promise<TabFlowDB> {
           console.log("[TabFlow] Created backups store");
         }
 
+        // v2: browsing state snapshots for crash recovery
+        if (oldVersion < 2 && !db.objectStoreNames.contains("browsingState")) {
+          db.createObjectStore("browsingState");
+          console.log("[TabFlow] Created browsingState store");
+        }
+
+        // v3: session tags, indexed per tag name, and their definitions
+        if (oldVersion < 3) {
+          const sessionsStore = transaction.objectStore("sessions");
+          if (!sessionsStore.indexNames.contains("byTag")) {
+            sessionsStore.createIndex("byTag", "tags", { unique: false, multiEntry: true });
+          }
+          if (!db.objectStoreNames.contains("tags")) {
+            db.createObjectStore("tags", { keyPath: "name" });
+          }
+          console.log("[TabFlow] Created byTag index and tags store");
+        }
+
         // Future migrations can be handled here based on oldVersion
-        // if (oldVersion < 2) { ... }
+        // if (oldVersion < 4) { ... }
 
         transaction.done.then(() => {
           console.log("[TabFlow] Database upgrade complete");
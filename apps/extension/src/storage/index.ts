@@ -12,6 +12,9 @@
  * - sessions.ts: Session CRUD operations
  * - undoStore.ts: Undo stack persistence
  * - backups.ts: Backup and export/import operations
+ * - browsingState.ts: Browsing state snapshots for crash recovery
+ * - tags.ts: Session tags and their definitions
+ * - archive.ts: Archived and trashed sessions
  */
 
 // Database connection and utilities
@@ -32,6 +35,7 @@ export {
 export {
   // Read
   getAllSessions,
+  isSessionHidden,
   getSession,
   sessionExists,
   getSessionCount,
@@ -40,15 +44,40 @@ export {
   saveSession,
   createSession,
   updateSession,
+  setSessionNotes,
   deleteSession,
   clearAllSessions,
   // Group operations
   addGroupToSession,
+  addTabsToGroup,
   updateGroupInSession,
   deleteGroupFromSession,
+  // Tab operations
+  updateTabInSession,
+  deleteTabFromSession,
+  moveTab,
+  // Ordering
+  reorderSessions,
+  reorderGroups,
+  setSessionPinned,
+  // Restore stats
+  recordSessionRestore,
+  // Merging and splitting
+  mergeSessions,
+  splitSession,
   // Batch operations
   importSessions,
   replaceSessionGroups,
+  // Auto-save
+  getAutoSavedSessions,
+  pruneAutoSavedSessions,
+  // Duplicate removal
+  dedupeGroups,
+  removeDuplicateTabs,
+  type CreateSessionOptions,
+  type MergeSessionsOptions,
+  type DedupeResult,
+  type GetSessionsOptions,
 } from "./sessions";
 
 // Undo stack operations
@@ -67,6 +96,17 @@ export {
   createDeleteSessionUndo,
   createApplyGroupingUndo,
   createImportUndo,
+  createStashTabsUndo,
+  createDedupeSessionUndo,
+  createUpdateTabUndo,
+  createDeleteTabUndo,
+  createMoveTabUndo,
+  createMergeSessionsUndo,
+  createSplitSessionUndo,
+  createAddToSessionUndo,
+  createTagSessionUndo,
+  createArchiveSessionUndo,
+  createEditNotesUndo,
 } from "./undoStore";
 
 // Backup operations
@@ -87,3 +127,35 @@ export {
   // Restore
   restoreFromBackup,
 } from "./backups";
+
+// Browsing state operations
+export {
+  // Read
+  getPreviousBrowsingSnapshot,
+  // Write
+  saveBrowsingSnapshot,
+  rotateBrowsingSnapshot,
+  clearPreviousBrowsingSnapshot,
+} from "./browsingState";
+
+// Tag operations
+export {
+  // Read
+  getAllTags,
+  getTagUsage,
+  // Write
+  setSessionTags,
+} from "./tags";
+
+// Archive and trash operations
+export {
+  // Read
+  getArchivedSessions,
+  getTrashedSessions,
+  // Write
+  archiveSession,
+  unarchiveSession,
+  trashSession,
+  restoreFromTrash,
+  purgeTrash,
+} from "./archive";
@@ -11,7 +11,9 @@
  * - Write operations use 'readwrite' mode
  */
 
-import type { Session, Group, TabSnapshot } from "@shared/types";
+import type { Session, Group, TabSnapshot, TabLocation } from "@shared/types";
+import { DEFAULT_GROUP_NAME } from "@shared/constants";
+import { sortSessions } from "@shared/sessionSort";
 import { getDB, StorageError, withErrorHandling, generateId, now } from "./db";
 
 // =============================================================================
@@ -19,12 +21,30 @@ import { getDB, StorageError, withErrorHandling, generateId, now } from "./db";
 // =============================================================================
 
 /**
- * Get all sessions, sorted by creation date (newest first).
+ * Whether a session is archived or in the Trash, and so left out of the list.
+ */
+export function isSessionHidden(session: Session): boolean {
+  return session.archivedAt !== undefined || session.trashedAt !== undefined;
+}
+
+/**
+ * Options for reading sessions.
+ */
+export interface GetSessionsOptions {
+  /** Include archived and trashed sessions (e.g. for backups) */
+  includeHidden?: boolean;
+}
+
+/**
+ * Get all sessions in list order: pinned first, then the user's order if
+ * sessions were reordered, otherwise newest first.
+ * Archived and trashed sessions are left out unless asked for.
  *
+ * @param options - Read options (includeHidden)
  * @returns Promise resolving to array of sessions
  * @throws StorageError if read fails
  */
-export async function getAllSessions(): Promise<Session[]> {
+export async function getAllSessions(options: GetSessionsOptions = {}): Promise<Session[]> {
   return withErrorHandling(async () => {
     const db = await getDB();
     const tx = db.transaction("sessions", "readonly");
@@ -35,8 +55,11 @@ export async function getAllSessions(): Promise<Session[]> {
 
     await tx.done;
 
-    // Return sorted newest first
-    return sessions.sort((a, b) => b.createdAt - a.createdAt);
+    // Return in list order
+    const listed = options.includeHidden
+      ? sessions
+      : sessions.filter((session) => !isSessionHidden(session));
+    return sortSessions(listed, "custom");
   }, "get all sessions");
 }
 
@@ -132,26 +155,43 @@ export async function saveSession(session: Session): Promise<void> {
 }
 
 /**
- * Create a new session with the given tabs.
- * Automatically generates ID and timestamp.
+ * Options for creating a session.
+ */
+export interface CreateSessionOptions {
+  /** Drop repeated tabs, keeping the first occurrence */
+  dedupe?: boolean;
+  /** Key used to detect duplicates (defaults to the tab URL) */
+  getDedupeKey?: (tab: TabSnapshot) => string;
+  /** Mark the session as written by the periodic auto-save */
+  autoSaved?: boolean;
+}
+
+/**
+ * Create a new session with the given groups of tabs.
+ * Automatically generates session ID, group IDs and timestamp.
  *
  * @param name - Session name
- * @param tabs - Array of tab snapshots
+ * @param groups - Groups of tab snapshots (without IDs)
+ * @param options - Creation options (dedupe)
  * @returns Promise resolving to the created session
  * @throws StorageError if write fails
  */
-export async function createSession(name: string, tabs: TabSnapshot[]): Promise<Session> {
+export async function createSession(
+  name: string,
+  groups: Omit<Group, "id">[],
+  options: CreateSessionOptions = {}
+): Promise<Session> {
+  const sessionGroups = options.dedupe ? dedupeGroups(groups, options.getDedupeKey).groups : groups;
+
   const session: Session = {
     id: generateId(),
     name: name || `Session ${new Date().toLocaleString()}`,
     createdAt: now(),
-    groups: [
-      {
-        id: generateId(),
-        name: "All Tabs",
-        tabs: tabs,
-      },
-    ],
+    groups: sessionGroups.map((group) => ({
+      ...group,
+      id: generateId(),
+    })),
+    ...(options.autoSaved ? { autoSaved: true } : {}),
   };
 
   await saveSession(session);
@@ -184,6 +224,7 @@ export async function updateSession(
     const updated: Session = {
       ...existing,
       ...updates,
+      updatedAt: now(),
     };
 
     await tx.store.put(updated);
@@ -193,6 +234,40 @@ export async function updateSession(
   }, `update session ${id}`);
 }
 
+/**
+ * Replace a session's notes. Empty notes remove the field.
+ *
+ * @param sessionId - Session ID
+ * @param notes - Markdown notes
+ * @returns Promise resolving to the previous state (for undo) and the updated session
+ * @throws StorageError if session not found
+ */
+export async function setSessionNotes(
+  sessionId: string,
+  notes: string
+): Promise<{ previousSession: Session; session: Session }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const previousSession = await tx.store.get(sessionId);
+    if (!previousSession) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    const session: Session = { ...previousSession, notes, updatedAt: now() };
+    if (!notes) {
+      delete session.notes;
+    }
+
+    await tx.store.put(session);
+    await tx.done;
+
+    return { previousSession, session };
+  }, `set notes of session ${sessionId}`);
+}
+
 /**
  * Delete a session by ID.
  * Returns the deleted session for undo purposes.
@@ -273,6 +348,7 @@ export async function addGroupToSession(
     };
 
     session.groups.push(newGroup);
+    session.updatedAt = now();
     await tx.store.put(session);
     await tx.done;
 
@@ -280,6 +356,45 @@ export async function addGroupToSession(
   }, `add group to session ${sessionId}`);
 }
 
+/**
+ * Append tabs to a group within a session.
+ *
+ * @param sessionId - Session ID
+ * @param groupId - Group ID
+ * @param tabs - Tabs to append
+ * @returns Promise resolving to updated session
+ * @throws StorageError if session or group not found
+ */
+export async function addTabsToGroup(
+  sessionId: string,
+  groupId: string,
+  tabs: TabSnapshot[]
+): Promise<Session> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const session = await tx.store.get(sessionId);
+    if (!session) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    const group = session.groups.find((g) => g.id === groupId);
+    if (!group) {
+      await tx.done;
+      throw new StorageError(`Group not found: ${groupId}`, "NOT_FOUND");
+    }
+
+    group.tabs.push(...tabs);
+    session.updatedAt = now();
+    await tx.store.put(session);
+    await tx.done;
+
+    return session;
+  }, `add tabs to group ${groupId}`);
+}
+
 /**
  * Update a group within a session.
  *
@@ -314,6 +429,7 @@ export async function updateGroupInSession(
       ...session.groups[groupIndex],
       ...updates,
     };
+    session.updatedAt = now();
 
     await tx.store.put(session);
     await tx.done;
@@ -342,6 +458,7 @@ export async function deleteGroupFromSession(sessionId: string, groupId: string)
     }
 
     session.groups = session.groups.filter((g) => g.id !== groupId);
+    session.updatedAt = now();
 
     await tx.store.put(session);
     await tx.done;
@@ -350,6 +467,435 @@ export async function deleteGroupFromSession(sessionId: string, groupId: string)
   }, `delete group ${groupId} from session ${sessionId}`);
 }
 
+// =============================================================================
+// Tab Operations (within a session)
+// =============================================================================
+
+/**
+ * Find a tab's group in a session, throwing if the tab doesn't exist.
+ */
+function findTabGroup(session: Session, location: TabLocation): Group {
+  const group = session.groups.find((g) => g.id === location.groupId);
+  if (!group || !group.tabs[location.tabIndex]) {
+    throw new StorageError(
+      `Tab not found: ${location.groupId}[${location.tabIndex}] in session ${session.id}`,
+      "NOT_FOUND"
+    );
+  }
+  return group;
+}
+
+/**
+ * Update a single tab within a session.
+ *
+ * @param location - Where the tab is
+ * @param updates - Partial tab updates
+ * @returns Promise resolving to the previous state (for undo) and the updated session
+ * @throws StorageError if session or tab not found
+ */
+export async function updateTabInSession(
+  location: TabLocation,
+  updates: Partial<TabSnapshot>
+): Promise<{ previousSession: Session; session: Session }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const session = await tx.store.get(location.sessionId);
+    if (!session) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${location.sessionId}`, "NOT_FOUND");
+    }
+
+    const previousSession = structuredClone(session);
+    const group = findTabGroup(session, location);
+    group.tabs[location.tabIndex] = { ...group.tabs[location.tabIndex], ...updates };
+    session.updatedAt = now();
+
+    await tx.store.put(session);
+    await tx.done;
+
+    return { previousSession, session };
+  }, `update tab in session ${location.sessionId}`);
+}
+
+/**
+ * Delete a single tab from a session.
+ * A group left empty is removed.
+ *
+ * @param location - Where the tab is
+ * @returns Promise resolving to the previous state (for undo) and the updated session
+ * @throws StorageError if session or tab not found
+ */
+export async function deleteTabFromSession(
+  location: TabLocation
+): Promise<{ previousSession: Session; session: Session }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const session = await tx.store.get(location.sessionId);
+    if (!session) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${location.sessionId}`, "NOT_FOUND");
+    }
+
+    const previousSession = structuredClone(session);
+    const group = findTabGroup(session, location);
+    group.tabs.splice(location.tabIndex, 1);
+    session.groups = session.groups.filter((g) => g.tabs.length > 0);
+    session.updatedAt = now();
+
+    await tx.store.put(session);
+    await tx.done;
+
+    return { previousSession, session };
+  }, `delete tab from session ${location.sessionId}`);
+}
+
+/**
+ * Move a tab to another group (or another position in its own group), in the
+ * same or another session. Without a target group, the tab goes to the target
+ * session's last group (or a new one if the session has none). Without an
+ * index, it goes to the end of the group. A source group left empty is removed.
+ *
+ * @param from - Where the tab is
+ * @param to - Target session and, optionally, group and the index of the tab
+ *             to insert before (as the group is now, before the move)
+ * @returns Promise resolving to the previous states (for undo) and the updated sessions
+ * @throws StorageError if a session, group or the tab is not found
+ */
+export async function moveTab(
+  from: TabLocation,
+  to: { sessionId: string; groupId?: string; index?: number }
+): Promise<{ previousSessions: Session[]; sessions: Session[] }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const source = await tx.store.get(from.sessionId);
+    const target = to.sessionId === from.sessionId ? source : await tx.store.get(to.sessionId);
+    if (!source || !target) {
+      await tx.done;
+      throw new StorageError(
+        `Session not found: ${!source ? from.sessionId : to.sessionId}`,
+        "NOT_FOUND"
+      );
+    }
+
+    const sessions = source === target ? [source] : [source, target];
+    const previousSessions = sessions.map((session) => structuredClone(session));
+
+    let targetGroup = to.groupId
+      ? target.groups.find((g) => g.id === to.groupId)
+      : target.groups[target.groups.length - 1];
+    if (to.groupId && !targetGroup) {
+      await tx.done;
+      throw new StorageError(
+        `Group not found: ${to.groupId} in session ${to.sessionId}`,
+        "NOT_FOUND"
+      );
+    }
+    if (!targetGroup) {
+      targetGroup = { id: generateId(), name: DEFAULT_GROUP_NAME, tabs: [] };
+      target.groups.push(targetGroup);
+    }
+
+    const sourceGroup = findTabGroup(source, from);
+    const [tab] = sourceGroup.tabs.splice(from.tabIndex, 1);
+
+    // Removing the tab shifts later positions in its own group down by one
+    let index = to.index ?? targetGroup.tabs.length;
+    if (sourceGroup === targetGroup && from.tabIndex < index) index--;
+    targetGroup.tabs.splice(Math.min(index, targetGroup.tabs.length), 0, tab);
+    source.groups = source.groups.filter((g) => g.tabs.length > 0);
+
+    const updatedAt = now();
+    for (const session of sessions) {
+      session.updatedAt = updatedAt;
+      await tx.store.put(session);
+    }
+    await tx.done;
+
+    return { previousSessions, sessions };
+  }, `move tab from session ${from.sessionId} to ${to.sessionId}`);
+}
+
+// =============================================================================
+// Ordering
+// =============================================================================
+
+/**
+ * Put items in the order of an ID list.
+ * Items missing from the list keep their relative order after the listed ones.
+ */
+function orderByIds<T extends { id: string }>(items: T[], ids: string[]): T[] {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  const listed = items.filter((item) => position.has(item.id));
+  const rest = items.filter((item) => !position.has(item.id));
+  listed.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+  return [...listed, ...rest];
+}
+
+/**
+ * Store the user's session order.
+ * Sessions missing from the list keep their relative order after the listed ones.
+ *
+ * @param sessionIds - Session IDs in the desired order
+ * @returns Promise resolving to the sessions in their new order
+ * @throws StorageError if write fails
+ */
+export async function reorderSessions(sessionIds: string[]): Promise<Session[]> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const sessions = sortSessions(await tx.store.getAll(), "custom");
+    const ordered = orderByIds(sessions, sessionIds);
+
+    for (const [order, session] of ordered.entries()) {
+      if (session.order !== order) {
+        session.order = order;
+        await tx.store.put(session);
+      }
+    }
+    await tx.done;
+
+    return ordered;
+  }, "reorder sessions");
+}
+
+/**
+ * Reorder the groups of a session.
+ * Groups missing from the list keep their relative order after the listed ones.
+ *
+ * @param sessionId - Session ID
+ * @param groupIds - Group IDs in the desired order
+ * @returns Promise resolving to updated session
+ * @throws StorageError if session not found
+ */
+export async function reorderGroups(sessionId: string, groupIds: string[]): Promise<Session> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const session = await tx.store.get(sessionId);
+    if (!session) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    session.groups = orderByIds(session.groups, groupIds);
+
+    await tx.store.put(session);
+    await tx.done;
+
+    return session;
+  }, `reorder groups in session ${sessionId}`);
+}
+
+/**
+ * Pin a session to the top of the list, or unpin it.
+ * Doesn't count as a change to the session (updatedAt is kept).
+ *
+ * @param sessionId - Session ID
+ * @param pinned - Whether the session should be pinned
+ * @returns Promise resolving to updated session
+ * @throws StorageError if session not found
+ */
+export async function setSessionPinned(sessionId: string, pinned: boolean): Promise<Session> {
+  return withErrorHandling(
+    async () => {
+      const db = await getDB();
+      const tx = db.transaction("sessions", "readwrite");
+
+      const session = await tx.store.get(sessionId);
+      if (!session) {
+        await tx.done;
+        throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+      }
+
+      if (pinned) {
+        session.pinned = true;
+      } else {
+        delete session.pinned;
+      }
+
+      await tx.store.put(session);
+      await tx.done;
+
+      return session;
+    },
+    `${pinned ? "pin" : "unpin"} session ${sessionId}`
+  );
+}
+
+// =============================================================================
+// Restore Stats
+// =============================================================================
+
+/**
+ * Record that a whole session was restored, for the "recently restored" order.
+ *
+ * @param sessionId - Session ID
+ * @returns Promise resolving to updated session
+ * @throws StorageError if session not found
+ */
+export async function recordSessionRestore(sessionId: string): Promise<Session> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const session = await tx.store.get(sessionId);
+    if (!session) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    session.lastRestoredAt = now();
+    session.restoreCount = (session.restoreCount ?? 0) + 1;
+
+    await tx.store.put(session);
+    await tx.done;
+
+    return session;
+  }, `record restore of session ${sessionId}`);
+}
+
+// =============================================================================
+// Merging and Splitting
+// =============================================================================
+
+/**
+ * Options for merging sessions.
+ */
+export interface MergeSessionsOptions {
+  /** Name of the merged session (defaults to the first session's name) */
+  name?: string;
+  /** Drop repeated tabs, keeping the first occurrence */
+  dedupe?: boolean;
+  /** Key used to detect duplicates (defaults to the tab URL) */
+  getDedupeKey?: (tab: TabSnapshot) => string;
+}
+
+/**
+ * Combine several sessions into the first one, which keeps its ID and
+ * position. Groups are appended in the order the IDs are given; the other
+ * sessions are deleted. The result carries every source's tags and notes,
+ * and is pinned if any source was.
+ *
+ * @param sessionIds - Sessions to merge, the first one receiving the rest
+ * @param options - Merge options (name, dedupe)
+ * @returns Promise resolving to the previous states (for undo), the merged session and the count of duplicates removed
+ * @throws StorageError if a session is not found
+ */
+export async function mergeSessions(
+  sessionIds: string[],
+  options: MergeSessionsOptions = {}
+): Promise<{ previousSessions: Session[]; session: Session; removedCount: number }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const previousSessions: Session[] = [];
+    for (const id of new Set(sessionIds)) {
+      const session = await tx.store.get(id);
+      if (!session) {
+        await tx.done;
+        throw new StorageError(`Session not found: ${id}`, "NOT_FOUND");
+      }
+      previousSessions.push(session);
+    }
+
+    const [first, ...rest] = previousSessions;
+    if (!first) {
+      await tx.done;
+      throw new StorageError("No sessions to merge", "INVALID_DATA");
+    }
+
+    const allGroups = previousSessions.flatMap((s) => s.groups);
+    const { groups, removedCount } = options.dedupe
+      ? dedupeGroups(allGroups, options.getDedupeKey)
+      : { groups: allGroups, removedCount: 0 };
+
+    const session: Session = {
+      ...first,
+      name: options.name || first.name,
+      groups,
+      updatedAt: now(),
+    };
+    // The result is the user's own session, even if an auto-save was merged in
+    delete session.autoSaved;
+
+    // The other sessions are deleted, so nothing of theirs may be dropped
+    const tags = [...new Set(previousSessions.flatMap((s) => s.tags ?? []))];
+    const notes = previousSessions
+      .map((s) => s.notes?.trim())
+      .filter(Boolean)
+      .join("\n\n");
+    if (tags.length > 0) session.tags = tags;
+    if (notes) session.notes = notes;
+    if (previousSessions.some((s) => s.pinned)) session.pinned = true;
+
+    await tx.store.put(session);
+    for (const other of rest) {
+      await tx.store.delete(other.id);
+    }
+    await tx.done;
+
+    return { previousSessions, session, removedCount };
+  }, "merge sessions");
+}
+
+/**
+ * Move some groups of a session into a new session.
+ * At least one group must stay behind.
+ *
+ * @param sessionId - Session to split
+ * @param groupIds - Groups to move into the new session
+ * @param name - Name of the new session (defaults to the source's name)
+ * @returns Promise resolving to the previous state (for undo), the updated source and the new session
+ * @throws StorageError if session not found or the selection is empty or covers every group
+ */
+export async function splitSession(
+  sessionId: string,
+  groupIds: string[],
+  name: string
+): Promise<{ previousSession: Session; session: Session; newSession: Session }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const previousSession = await tx.store.get(sessionId);
+    if (!previousSession) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    const selected = new Set(groupIds);
+    const moved = previousSession.groups.filter((g) => selected.has(g.id));
+    const kept = previousSession.groups.filter((g) => !selected.has(g.id));
+    if (moved.length === 0 || kept.length === 0) {
+      await tx.done;
+      throw new StorageError("Select some, but not all, groups to split off", "INVALID_DATA");
+    }
+
+    const session: Session = { ...previousSession, groups: kept, updatedAt: now() };
+    const newSession: Session = {
+      id: generateId(),
+      name: name || previousSession.name,
+      createdAt: now(),
+      groups: moved,
+    };
+
+    await tx.store.put(session);
+    await tx.store.put(newSession);
+    await tx.done;
+
+    return { previousSession, session, newSession };
+  }, `split session ${sessionId}`);
+}
+
 // =============================================================================
 // Batch Operations
 // =============================================================================
@@ -392,14 +938,18 @@ export async function importSessions(
 
 /**
  * Replace all groups in a session with new groups.
- * Used when applying AI grouping results.
+ * Used when applying AI grouping results and syncing workspace windows.
+ * Tab notes are kept for tabs whose URL is still in the session.
  *
  * @param sessionId - Session ID
- * @param groups - New groups to replace existing
+ * @param groups - New groups to replace existing (groups without an ID get one)
  * @returns Promise resolving to previous session state (for undo)
  * @throws StorageError if session not found
  */
-export async function replaceSessionGroups(sessionId: string, groups: Group[]): Promise<Session> {
+export async function replaceSessionGroups(
+  sessionId: string,
+  groups: (Omit<Group, "id"> & { id?: string })[]
+): Promise<Session> {
   return withErrorHandling(async () => {
     const db = await getDB();
     const tx = db.transaction("sessions", "readwrite");
@@ -413,11 +963,25 @@ export async function replaceSessionGroups(sessionId: string, groups: Group[]):
     // Store previous state for undo
     const previousSession = { ...session };
 
+    // Tab notes live only here, so carry them over to the same URLs
+    const notes = new Map(
+      session.groups.flatMap((group) =>
+        group.tabs.flatMap((tab) => (tab.note ? [[tab.url, tab.note] as const] : []))
+      )
+    );
+
     // Ensure all groups have IDs
     session.groups = groups.map((group) => ({
       ...group,
       id: group.id || generateId(),
+      tabs:
+        notes.size > 0
+          ? group.tabs.map((tab) =>
+              tab.note || !notes.has(tab.url) ? tab : { ...tab, note: notes.get(tab.url) }
+            )
+          : group.tabs,
     }));
+    session.updatedAt = now();
 
     await tx.store.put(session);
     await tx.done;
@@ -425,3 +989,135 @@ export async function replaceSessionGroups(sessionId: string, groups: Group[]):
     return previousSession;
   }, `replace groups in session ${sessionId}`);
 }
+
+// =============================================================================
+// Auto-Save Sessions
+// =============================================================================
+
+/**
+ * Get sessions written by the periodic auto-save, newest first.
+ *
+ * @returns Promise resolving to autosave sessions
+ * @throws StorageError if read fails
+ */
+export async function getAutoSavedSessions(): Promise<Session[]> {
+  const sessions = await getAllSessions();
+  // The list may be in the user's order, so sort by age explicitly
+  return sessions.filter((session) => session.autoSaved).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Delete the oldest autosave sessions beyond keepCount.
+ *
+ * @param keepCount - Number of autosave sessions to keep
+ * @returns Promise resolving to number of sessions deleted
+ * @throws StorageError if delete fails
+ */
+export async function pruneAutoSavedSessions(keepCount: number): Promise<number> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    // Walk newest to oldest, deleting everything past the first keepCount
+    let cursor = await tx.store.index("byCreatedAt").openCursor(null, "prev");
+    let kept = 0;
+    let deleted = 0;
+
+    while (cursor) {
+      // Archived or trashed autosaves are the user's to manage
+      if (cursor.value.autoSaved && !isSessionHidden(cursor.value)) {
+        if (kept < keepCount) {
+          kept++;
+        } else {
+          await cursor.delete();
+          deleted++;
+        }
+      }
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+    return deleted;
+  }, "prune autosave sessions");
+}
+
+// =============================================================================
+// Duplicate Removal
+// =============================================================================
+
+/**
+ * Result of removing duplicate tabs from a list of groups.
+ */
+export interface DedupeResult<T extends Pick<Group, "tabs">> {
+  groups: T[];
+  removedCount: number;
+}
+
+/**
+ * Remove repeated tabs across groups, keeping the first occurrence.
+ * Groups left without tabs are dropped.
+ *
+ * @param groups - Groups to dedupe (not modified)
+ * @param getKey - Key used to detect duplicates (defaults to the tab URL)
+ * @returns Deduped groups and the number of tabs removed
+ */
+export function dedupeGroups<T extends Pick<Group, "tabs">>(
+  groups: T[],
+  getKey: (tab: TabSnapshot) => string = (tab) => tab.url
+): DedupeResult<T> {
+  const seen = new Set<string>();
+  let removedCount = 0;
+
+  const deduped = groups
+    .map((group) => ({
+      ...group,
+      tabs: group.tabs.filter((tab) => {
+        const key = getKey(tab);
+        if (seen.has(key)) {
+          removedCount++;
+          return false;
+        }
+        seen.add(key);
+        return true;
+      }),
+    }))
+    .filter((group) => group.tabs.length > 0);
+
+  return { groups: removedCount > 0 ? deduped : groups, removedCount };
+}
+
+/**
+ * Remove duplicate tabs from a saved session.
+ * The session is only written if something was removed.
+ *
+ * @param sessionId - Session ID
+ * @param getKey - Key used to detect duplicates (defaults to the tab URL)
+ * @returns Promise resolving to the previous state (for undo), the updated session and the count
+ * @throws StorageError if session not found
+ */
+export async function removeDuplicateTabs(
+  sessionId: string,
+  getKey?: (tab: TabSnapshot) => string
+): Promise<{ previousSession: Session; session: Session; removedCount: number }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction("sessions", "readwrite");
+
+    const previousSession = await tx.store.get(sessionId);
+    if (!previousSession) {
+      await tx.done;
+      throw new StorageError(`Session not found: ${sessionId}`, "NOT_FOUND");
+    }
+
+    const { groups, removedCount } = dedupeGroups(previousSession.groups, getKey);
+    const session: Session =
+      removedCount > 0 ? { ...previousSession, groups, updatedAt: now() } : previousSession;
+
+    if (removedCount > 0) {
+      await tx.store.put(session);
+    }
+    await tx.done;
+
+    return { previousSession, session, removedCount };
+  }, `remove duplicate tabs in session ${sessionId}`);
+}
@@ -0,0 +1,126 @@
+/**
+ * TabFlow – Tag Storage Operations
+ *
+ * Sessions carry tag names (session.tags, indexed by byTag); each tag's
+ * color lives in the tags store.
+ *
+ * Design:
+ * - Definitions are never pruned, so a tag removed from its last session
+ *   (then restored by undo) keeps its color
+ * - Tags in use are read from the byTag index, so a session tag without a
+ *   definition (e.g. from a partial import) still shows up
+ * - Tag names are case-insensitively unique; the first spelling wins
+ */
+
+import type { Session, Tag, TagUsage } from "@shared/types";
+import { getDB, StorageError, withErrorHandling, now } from "./db";
+import { isSessionHidden } from "./sessions";
+
+/** Color for session tags that have no definition */
+const DEFAULT_TAG_COLOR = "grey";
+
+// =============================================================================
+// Read Operations
+// =============================================================================
+
+/**
+ * Get every tag definition.
+ *
+ * @returns Promise resolving to tags sorted by name
+ * @throws StorageError if read fails
+ */
+export async function getAllTags(): Promise<Tag[]> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    return db.getAll("tags");
+  }, "get all tags");
+}
+
+/**
+ * Get the tags used by at least one listed (not archived or trashed)
+ * session, with their session counts.
+ *
+ * @returns Promise resolving to tags sorted by name
+ * @throws StorageError if read fails
+ */
+export async function getTagUsage(): Promise<TagUsage[]> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction(["sessions", "tags"], "readonly");
+    const byTag = tx.objectStore("sessions").index("byTag");
+    const definitions = tx.objectStore("tags");
+
+    // The index walks in tag name order, once per session carrying the tag
+    const counts = new Map<string, number>();
+    let cursor = await byTag.openCursor();
+    while (cursor) {
+      if (!isSessionHidden(cursor.value)) {
+        counts.set(cursor.key, (counts.get(cursor.key) ?? 0) + 1);
+      }
+      cursor = await cursor.continue();
+    }
+
+    const usage: TagUsage[] = [];
+    for (const [name, sessionCount] of counts) {
+      const definition = await definitions.get(name);
+      usage.push({ name, color: definition?.color ?? DEFAULT_TAG_COLOR, sessionCount });
+    }
+
+    await tx.done;
+    return usage;
+  }, "get tag usage");
+}
+
+// =============================================================================
+// Write Operations
+// =============================================================================
+
+/**
+ * Replace a session's tags, creating or recoloring their definitions.
+ *
+ * @param sessionId - Session ID
+ * @param tags - The session's new tags, in display order
+ * @returns Promise resolving to the session before and after the change
+ * @throws StorageError if the session doesn't exist or write fails
+ */
+export async function setSessionTags(
+  sessionId: string,
+  tags: Tag[]
+): Promise<{ previousSession: Session; session: Session }> {
+  return withErrorHandling(async () => {
+    const db = await getDB();
+    const tx = db.transaction(["sessions", "tags"], "readwrite");
+    const sessions = tx.objectStore("sessions");
+    const definitions = tx.objectStore("tags");
+
+    const previousSession = await sessions.get(sessionId);
+    if (!previousSession) {
+      await tx.done;
+      throw new StorageError(`Session ${sessionId} not found`, "NOT_FOUND");
+    }
+
+    // Reuse an existing spelling, and drop case-insensitive duplicates
+    const existingNames = new Map(
+      (await definitions.getAllKeys()).map((name) => [name.toLowerCase(), name])
+    );
+    const names: string[] = [];
+    for (const tag of tags) {
+      const key = tag.name.toLowerCase();
+      const name = existingNames.get(key) ?? tag.name;
+      if (names.some((n) => n.toLowerCase() === key)) continue;
+
+      existingNames.set(key, name);
+      names.push(name);
+      await definitions.put({ name, color: tag.color });
+    }
+
+    const session: Session = { ...previousSession, tags: names, updatedAt: now() };
+    if (names.length === 0) {
+      delete session.tags;
+    }
+    await sessions.put(session);
+
+    await tx.done;
+    return { previousSession, session };
+  }, `set tags of session ${sessionId}`);
+}
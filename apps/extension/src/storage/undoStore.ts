@@ -206,11 +206,14 @@ export function createSaveSessionUndo(sessionId: string): UndoEntry {
 /**
  * Create a typed undo entry for deleting a session.
  */
-export function createDeleteSessionUndo(session: import("@shared/types").Session): UndoEntry {
+export function createDeleteSessionUndo(
+  session: import("@shared/types").Session,
+  windowId?: number
+): UndoEntry {
   return {
     type: "DELETE_SESSION",
     timestamp: Date.now(),
-    data: { session },
+    data: { session, windowId },
   };
 }
 
@@ -252,3 +255,140 @@ export function createImportUndo(previousSessions: import("@shared/types").Sessi
     data: { previousSessions },
   };
 }
+
+/**
+ * Create a typed undo entry for removing duplicate tabs from a session.
+ */
+export function createDedupeSessionUndo(
+  previousSession: import("@shared/types").Session
+): UndoEntry {
+  return {
+    type: "DEDUPE_SESSION",
+    timestamp: Date.now(),
+    data: { previousSession },
+  };
+}
+
+/**
+ * Create a typed undo entry for editing a tab's title or URL.
+ */
+export function createUpdateTabUndo(previousSession: import("@shared/types").Session): UndoEntry {
+  return {
+    type: "UPDATE_TAB",
+    timestamp: Date.now(),
+    data: { previousSession },
+  };
+}
+
+/**
+ * Create a typed undo entry for deleting a single tab.
+ */
+export function createDeleteTabUndo(previousSession: import("@shared/types").Session): UndoEntry {
+  return {
+    type: "DELETE_TAB",
+    timestamp: Date.now(),
+    data: { previousSession },
+  };
+}
+
+/**
+ * Create a typed undo entry for moving a tab.
+ */
+export function createMoveTabUndo(previousSessions: import("@shared/types").Session[]): UndoEntry {
+  return {
+    type: "MOVE_TAB",
+    timestamp: Date.now(),
+    data: { previousSessions },
+  };
+}
+
+/**
+ * Create a typed undo entry for merging sessions.
+ */
+export function createMergeSessionsUndo(
+  previousSessions: import("@shared/types").Session[]
+): UndoEntry {
+  return {
+    type: "MERGE_SESSIONS",
+    timestamp: Date.now(),
+    data: { previousSessions },
+  };
+}
+
+/**
+ * Create a typed undo entry for splitting a session.
+ */
+export function createSplitSessionUndo(
+  previousSession: import("@shared/types").Session,
+  newSessionId: string
+): UndoEntry {
+  return {
+    type: "SPLIT_SESSION",
+    timestamp: Date.now(),
+    data: { previousSession, newSessionId },
+  };
+}
+
+/**
+ * Create a typed undo entry for adding tabs to an existing session.
+ */
+export function createAddToSessionUndo(
+  previousSession: import("@shared/types").Session
+): UndoEntry {
+  return {
+    type: "ADD_TO_SESSION",
+    timestamp: Date.now(),
+    data: { previousSession },
+  };
+}
+
+/**
+ * Create a typed undo entry for stashing tabs.
+ */
+export function createStashTabsUndo(
+  session: import("@shared/types").Session,
+  placeholderTabIds: number[],
+  windowIds?: number[]
+): UndoEntry {
+  return {
+    type: "STASH_TABS",
+    timestamp: Date.now(),
+    data: { session, placeholderTabIds, windowIds },
+  };
+}
+
+/**
+ * Create a typed undo entry for changing a session's tags.
+ */
+export function createTagSessionUndo(previousSession: import("@shared/types").Session): UndoEntry {
+  return {
+    type: "TAG_SESSION",
+    timestamp: Date.now(),
+    data: { previousSession },
+  };
+}
+
+/**
+ * Create a typed undo entry for archiving a session.
+ */
+export function createArchiveSessionUndo(
+  previousSession: import("@shared/types").Session,
+  windowId?: number
+): UndoEntry {
+  return {
+    type: "ARCHIVE_SESSION",
+    timestamp: Date.now(),
+    data: { previousSession, windowId },
+  };
+}
+
+/**
+ * Create a typed undo entry for editing a session's notes.
+ */
+export function createEditNotesUndo(previousSession: import("@shared/types").Session): UndoEntry {
+  return {
+    type: "EDIT_NOTES",
+    timestamp: Date.now(),
+    data: { previousSession },
+  };
+}